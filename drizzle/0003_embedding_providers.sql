@@ -0,0 +1,24 @@
+-- Migration to support pluggable embedding providers
+-- Embeddings now record the provider and model that produced them, and the
+-- vector column no longer has a fixed dimension.
+
+-- Record which provider/model produced each vector (existing rows are OpenAI text-embedding-3-small)
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "embedding_provider" text;
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "embedding_model" text;
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "embedding_dimensions" integer;
+
+UPDATE "embeddings" SET "embedding_provider" = 'openai' WHERE "embedding_provider" IS NULL;
+UPDATE "embeddings" SET "embedding_model" = 'text-embedding-3-small' WHERE "embedding_model" IS NULL;
+UPDATE "embeddings" SET "embedding_dimensions" = 1536 WHERE "embedding_dimensions" IS NULL;
+
+ALTER TABLE "embeddings" ALTER COLUMN "embedding_provider" SET NOT NULL;
+ALTER TABLE "embeddings" ALTER COLUMN "embedding_model" SET NOT NULL;
+ALTER TABLE "embeddings" ALTER COLUMN "embedding_dimensions" SET NOT NULL;
+
+-- HNSW indexes require a fixed dimension, so replace the column-wide index
+-- with a partial expression index over the 1536-dimensional rows
+DROP INDEX IF EXISTS "embeddingIndex";
+ALTER TABLE "embeddings" ALTER COLUMN "embedding" SET DATA TYPE vector;
+CREATE INDEX IF NOT EXISTS "embeddingIndex" ON "embeddings" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "embedding_dimensions" = 1536;
+
+CREATE INDEX IF NOT EXISTS "embeddingModelIdx" ON "embeddings" ("embedding_provider", "embedding_model");
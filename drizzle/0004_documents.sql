@@ -0,0 +1,51 @@
+-- Migration to add a first-class documents table
+-- Chunks previously formed "documents" only through metadata->>'source'.
+-- Each distinct (user_id, source) becomes a document that owns its chunks.
+
+CREATE TABLE IF NOT EXISTS "documents" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" text NOT NULL,
+  "title" text NOT NULL,
+  "path" text NOT NULL,
+  "content_hash" text NOT NULL,
+  "mime_type" text NOT NULL DEFAULT 'text/markdown',
+  "size" integer NOT NULL,
+  "created_at" timestamp DEFAULT now(),
+  "updated_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "documentUserIdx" ON "documents" ("user_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "documentUserPathIdx" ON "documents" ("user_id", "path");
+
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "document_id" uuid REFERENCES "documents"("id") ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS "embeddingDocumentIdx" ON "embeddings" ("document_id");
+
+-- Chunks without a user can never be returned by any route (every query is
+-- scoped to the signed-in user), so drop them rather than invent an owner
+DELETE FROM "embeddings" WHERE "user_id" IS NULL;
+
+-- Backfill: one document per user and source. The hash is a placeholder
+-- derived from the stored chunks, so the first re-upload re-processes the file.
+INSERT INTO "documents" ("user_id", "title", "path", "content_hash", "mime_type", "size", "created_at", "updated_at")
+SELECT
+  "user_id",
+  MIN(COALESCE("metadata"->>'fileName', "metadata"->>'source', 'untitled')),
+  COALESCE("metadata"->>'source', 'untitled'),
+  md5(string_agg("content", E'\n' ORDER BY "created_at")),
+  'text/markdown',
+  SUM(octet_length("content"))::int,
+  MIN("created_at"),
+  MAX("created_at")
+FROM "embeddings"
+WHERE "document_id" IS NULL
+GROUP BY "user_id", COALESCE("metadata"->>'source', 'untitled')
+ON CONFLICT ("user_id", "path") DO NOTHING;
+
+UPDATE "embeddings" AS e
+SET "document_id" = d."id"
+FROM "documents" AS d
+WHERE e."document_id" IS NULL
+  AND d."user_id" = e."user_id"
+  AND d."path" = COALESCE(e."metadata"->>'source', 'untitled');
+
+ALTER TABLE "embeddings" ALTER COLUMN "document_id" SET NOT NULL;
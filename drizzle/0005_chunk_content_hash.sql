@@ -0,0 +1,10 @@
+-- Migration to hash chunk contents for idempotent re-ingestion
+-- Unchanged chunks are matched by hash and keep their embeddings.
+
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "content_hash" text;
+
+UPDATE "embeddings" SET "content_hash" = encode(sha256(convert_to("content", 'UTF8')), 'hex') WHERE "content_hash" IS NULL;
+
+ALTER TABLE "embeddings" ALTER COLUMN "content_hash" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "embeddingDocumentHashIdx" ON "embeddings" ("document_id", "content_hash");
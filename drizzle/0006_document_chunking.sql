@@ -0,0 +1,8 @@
+-- Migration to record how each document was chunked
+-- Existing documents were chunked by markdown section, sized in characters.
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "chunking_strategy" text DEFAULT 'markdown-section' NOT NULL;
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "chunking_params" jsonb;
+
+UPDATE "documents" SET "chunking_params" = '{"unit": "characters", "chunkSize": 1000, "chunkOverlap": 200}'::jsonb WHERE "chunking_params" IS NULL;
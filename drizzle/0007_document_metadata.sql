@@ -0,0 +1,7 @@
+-- Migration to store parsed frontmatter as document metadata
+-- Chunks inherit it in their metadata; the GIN index serves tag (@>) filters.
+-- Re-ingest existing notes to fill in the metadata.
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "metadata" jsonb;
+
+CREATE INDEX IF NOT EXISTS "embeddingMetadataIdx" ON "embeddings" USING gin ("metadata" jsonb_path_ops);
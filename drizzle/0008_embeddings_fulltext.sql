@@ -0,0 +1,6 @@
+-- Migration to add full-text search over chunk contents
+-- Hybrid search fuses ts_rank results from this column with vector results.
+
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+CREATE INDEX IF NOT EXISTS "embeddingSearchIdx" ON "embeddings" USING gin ("search_vector");
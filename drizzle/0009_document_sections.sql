@@ -0,0 +1,21 @@
+-- Migration to add parent sections for small-to-big retrieval
+-- Child chunks in embeddings point at the section returned as their context.
+-- Re-ingest existing notes to build their sections.
+
+CREATE TABLE IF NOT EXISTS "document_sections" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "user_id" text NOT NULL,
+  "document_id" uuid NOT NULL REFERENCES "documents"("id") ON DELETE CASCADE,
+  "section_index" integer NOT NULL,
+  "content" text NOT NULL,
+  "content_hash" text NOT NULL,
+  "breadcrumb" text NOT NULL DEFAULT '',
+  "start_offset" integer NOT NULL,
+  "end_offset" integer NOT NULL,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "sectionDocumentIdx" ON "document_sections" ("document_id");
+
+ALTER TABLE "embeddings" ADD COLUMN IF NOT EXISTS "parent_id" uuid REFERENCES "document_sections"("id") ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS "embeddingParentIdx" ON "embeddings" ("parent_id");
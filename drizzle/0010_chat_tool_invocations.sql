@@ -0,0 +1,5 @@
+-- Migration to store tool calls with assistant messages
+-- /api/chat saves each reply's tool calls and results so later turns can
+-- replay them. 0002 stopped using this column; databases created since lack it.
+
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "tool_invocations" jsonb;
@@ -0,0 +1,5 @@
+-- Migration to store assistant replies as structured parts
+-- Text, tool calls and tool results in step order, replayed to the model on
+-- later turns and shown in the chat. tool_invocations is kept for older replies.
+
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "parts" jsonb;
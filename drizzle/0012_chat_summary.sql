@@ -0,0 +1,6 @@
+-- Migration to add a rolling summary to chats
+-- Turns that no longer fit the model's history budget are folded into the
+-- summary, which is sent with the system prompt.
+
+ALTER TABLE "chats" ADD COLUMN IF NOT EXISTS "summary" text;
+ALTER TABLE "chats" ADD COLUMN IF NOT EXISTS "summary_through" timestamp;
@@ -0,0 +1,12 @@
+-- Migration to make chat history searchable
+-- Keyword search uses the generated tsvector; semantic search uses message
+-- embeddings, written only when CHAT_MESSAGE_EMBEDDINGS=true.
+
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('english', "content")) STORED;
+
+CREATE INDEX IF NOT EXISTS "messageSearchIdx" ON "chat_messages" USING gin ("search_vector");
+
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "embedding" vector;
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "embedding_provider" text;
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "embedding_model" text;
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "embedding_dimensions" integer;
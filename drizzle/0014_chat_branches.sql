@@ -0,0 +1,33 @@
+-- Migration to store chats as message trees
+-- Each message points at the message it follows; messages with the same
+-- parent are alternative branches. The chat remembers which branch is shown.
+
+ALTER TABLE "chat_messages" ADD COLUMN IF NOT EXISTS "parent_message_id" uuid REFERENCES "chat_messages"("id") ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS "messagesParentIdx" ON "chat_messages" ("parent_message_id");
+
+-- Existing chats are linear: each message follows the one before it.
+-- Chats that already have a tree are left alone.
+UPDATE "chat_messages" AS m
+SET "parent_message_id" = ordered."previous_id"
+FROM (
+  SELECT "id", LAG("id") OVER (PARTITION BY "chat_id" ORDER BY "created_at", "id") AS "previous_id"
+  FROM "chat_messages"
+) AS ordered
+WHERE m."id" = ordered."id"
+  AND ordered."previous_id" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "chat_messages" AS linked
+    WHERE linked."chat_id" = m."chat_id" AND linked."parent_message_id" IS NOT NULL
+  );
+
+ALTER TABLE "chats" ADD COLUMN IF NOT EXISTS "active_message_id" uuid REFERENCES "chat_messages"("id") ON DELETE SET NULL;
+
+UPDATE "chats" AS c
+SET "active_message_id" = (
+  SELECT m."id" FROM "chat_messages" AS m
+  WHERE m."chat_id" = c."id"
+  ORDER BY m."created_at" DESC, m."id" DESC
+  LIMIT 1
+)
+WHERE c."active_message_id" IS NULL;
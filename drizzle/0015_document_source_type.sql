@@ -0,0 +1,5 @@
+-- Migration to record how each document was added
+-- upload (web upload), ingest (the ingest script) or chat (an answer saved
+-- as a note). Existing documents count as uploads.
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "source_type" text NOT NULL DEFAULT 'upload';
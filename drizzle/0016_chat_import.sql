@@ -0,0 +1,10 @@
+-- Migration to record where imported chats came from
+-- import_source is the export format (chatgpt, jsonl) and import_id the
+-- conversation's id in it, so importing the same export twice skips chats
+-- that already exist. Imported conversations saved as notes use the
+-- documents source type chat-import.
+
+ALTER TABLE "chats" ADD COLUMN IF NOT EXISTS "import_source" text;
+ALTER TABLE "chats" ADD COLUMN IF NOT EXISTS "import_id" text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "chatImportIdx" ON "chats" ("user_id", "import_source", "import_id");
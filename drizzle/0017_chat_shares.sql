@@ -0,0 +1,18 @@
+-- Migration to add read-only share links for chats
+-- A link shows the chat up to message_id. Cited chunks show their text only
+-- if listed in included_chunk_ids. Revoked or expired links stop working.
+
+CREATE TABLE IF NOT EXISTS "chat_shares" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "chat_id" uuid NOT NULL REFERENCES "chats"("id") ON DELETE CASCADE,
+  "user_id" text NOT NULL,
+  "token" text NOT NULL,
+  "message_id" uuid NOT NULL REFERENCES "chat_messages"("id") ON DELETE CASCADE,
+  "included_chunk_ids" jsonb NOT NULL DEFAULT '[]'::jsonb,
+  "expires_at" timestamp,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "shareTokenIdx" ON "chat_shares" ("token");
+CREATE INDEX IF NOT EXISTS "shareChatIdx" ON "chat_shares" ("chat_id");
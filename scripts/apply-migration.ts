@@ -14,19 +14,29 @@ const pool = new Pool({
   connectionString: databaseUrl,
 });
 
+// Usage: tsx scripts/apply-migration.ts [migration-file.sql]
+const migrationFile = process.argv[2] || "0002_add_chat_schema.sql";
+
 async function applyMigration() {
   const migrationSQL = readFileSync(
-    join(process.cwd(), "drizzle", "0002_add_chat_schema.sql"),
+    join(process.cwd(), "drizzle", migrationFile),
     "utf-8"
   );
 
-  console.log("Applying migration 0002_add_chat_schema.sql...");
+  console.log(`Applying migration ${migrationFile}...`);
 
-  // Split by semicolons and execute each statement
+  // Split by semicolons and execute each statement, dropping comment lines
+  // so a statement preceded by a comment is not skipped
   const statements = migrationSQL
     .split(";")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0 && !s.startsWith("--"));
+    .map((s) =>
+      s
+        .split("\n")
+        .filter((line) => !line.trim().startsWith("--"))
+        .join("\n")
+        .trim()
+    )
+    .filter((s) => s.length > 0);
 
   for (const statement of statements) {
     if (statement.trim()) {
@@ -1,13 +1,53 @@
 import { openai } from "@ai-sdk/openai";
-import { streamText, tool } from "ai";
+import {
+  convertToCoreMessages,
+  createDataStreamResponse,
+  streamText,
+  tool,
+  type JSONValue,
+} from "ai";
 import { z } from "zod";
-import { searchSimilar } from "@/lib/rag/vectorStore";
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { chats, chatMessages } from "@/lib/db/schema";
+import {
+  citationMarkerTransform,
+  createCitationTracker,
+  type Citation,
+  type SourcesAnnotation,
+} from "@/lib/ai/citations";
+import {
+  activeLeaf,
+  chatHistory,
+  loadChatMessages,
+  messagePartsFromSteps,
+} from "@/lib/ai/chatHistory";
+import { fitHistory, getHistoryBudget, summarizeHistory } from "@/lib/ai/historyWindow";
+import { generateChatTitle } from "@/lib/ai/chatTitles";
+import { embedChatMessages } from "@/lib/ai/chatSearch";
+import { countTokens } from "@/lib/rag/tokenizer";
+import { SEARCH_MODES, searchSimilar, type SearchMode } from "@/lib/rag/vectorStore";
+import { searchFiltersSchema, type SearchFilters } from "@/lib/rag/searchFilters";
+import { getQueryExpander } from "@/lib/rag/queryExpansion";
 import { generateText } from "ai";
 import { auth } from "@clerk/nextjs/server";
 
 // Allow streaming responses up to 60 seconds
 export const maxDuration = 60;
 
+// Chat model; its history budget comes from MODEL_HISTORY_BUDGETS
+const CHAT_MODEL = process.env.CHAT_MODEL || "gpt-4o";
+
+// searchNotes retrieval: drop weak matches (similarity is 0-1, see
+// searchSimilar), prefer varied chunks, and keep several notes in view
+const SEARCH_MIN_SIMILARITY =
+  parseFloat(process.env.SEARCH_MIN_SIMILARITY || "0.6") || 0;
+const SEARCH_MMR_LAMBDA = 0.7;
+const SEARCH_MAX_PER_DOCUMENT = 3;
+// Match small chunks but show the model their parent sections; hits without
+// a section get one chunk on each side so answers spanning a boundary stay whole
+const SEARCH_NEIGHBOR_CHUNKS = 1;
+
 const SYSTEM_PROMPT = `You are an intelligent AI agent that helps users interact with their personal notes and knowledge base. You have access to tools that let you search, summarize, analyze, and extract information from their notes.
 
 Your capabilities:
@@ -33,15 +73,9 @@ Guidelines:
 - Be honest when information isn't available in the user's notes
 - You can use multiple tools in sequence to answer complex queries
 
-IMPORTANT - Source Citation Format:
-When you use searchNotes and find relevant information, ALWAYS end your response with a sources section in this exact format:
-
----sources---
-- source_name.md (relevance: 0.XX)
-- another_source.md (relevance: 0.XX)
----end-sources---
-
-Only include sources that you actually used to answer the question. The relevance score comes from the similarity field in search results.`;
+IMPORTANT - Citing Sources:
+Every searchNotes result has a ref number. When a statement in your answer comes from a result, put its ref in square brackets right after the statement, e.g. "The launch moved to March [1]." Cite several results as [1, 3]. Only use ref numbers from searchNotes results in this turn - never invent one.
+Before writing your answer, also call citeSources with the chunkId of every result you use, each with a short quote copied exactly from that result's content that supports your answer. Only cite results you actually use. Do not write a sources list in your reply - citations are shown to the user separately.`;
 
 export async function POST(req: Request) {
   try {
@@ -55,273 +89,604 @@ export async function POST(req: Request) {
     }
 
     const body = await req.json();
-    const { messages } = body;
+    const { chatId, message, regenerateMessageId } = body;
+
+    if (!chatId || typeof chatId !== "string") {
+      return new Response(JSON.stringify({ error: "chatId is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-    if (!messages || !Array.isArray(messages)) {
+    // Chat ids are UUIDs; anything else can't name a chat
+    if (!z.string().uuid().safeParse(chatId).success) {
+      return new Response(JSON.stringify({ error: "Chat not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (
+      !regenerateMessageId &&
+      (!message ||
+        typeof message.content !== "string" ||
+        !message.content.trim())
+    ) {
       return new Response(
-        JSON.stringify({ error: "Messages array is required" }),
+        JSON.stringify({ error: "A message with content is required" }),
         { status: 400, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    console.log("Chat API: Received messages:", messages.length);
-
-    // Format messages for the AI model
-    const formattedMessages = messages.map(
-      (msg: { role: string; content: string }) => ({
-        role: msg.role as "user" | "assistant" | "system",
-        content: msg.content,
+    // Verify the chat belongs to the user
+    const [chat] = await db
+      .select({
+        id: chats.id,
+        summary: chats.summary,
+        summaryThrough: chats.summaryThrough,
+        title: chats.title,
+        activeMessageId: chats.activeMessageId,
       })
-    );
+      .from(chats)
+      .where(and(eq(chats.id, chatId), eq(chats.userId, userId)));
 
-    console.log("Chat API: Starting streamText with tools");
-
-    const result = streamText({
-      model: openai("gpt-4o"),
-      system: SYSTEM_PROMPT,
-      messages: formattedMessages,
-      tools: {
-        searchNotes: tool({
-          description:
-            "Search the user's notes using semantic similarity. Use this when you need to find relevant information from the user's knowledge base. For best results, include specific identifiers, names, dates, or other relevant context in your query.",
-          parameters: z.object({
-            query: z
-              .string()
-              .describe(
-                "The search query to find relevant notes. Be specific - include key identifiers, names, dates, or other relevant context when searching for specific information."
-              ),
-          }),
-          execute: async ({ query }: { query: string }) => {
-            console.log(`[searchNotes] Searching for: "${query}"`);
-            try {
-              // Pass userId for multi-tenancy - only search user's own notes
-              // Increased topK to 10 to get more context
-              const results = await searchSimilar(query, 10, userId);
-              console.log(`[searchNotes] Found ${results.length} results`);
-              return {
-                success: true,
-                results: results.map((chunk) => ({
-                  chunkId: chunk.id, // Include chunk ID for tracking
-                  content: chunk.content,
-                  source:
-                    chunk.metadata?.source ||
-                    chunk.metadata?.fileName ||
-                    "unknown",
-                  chunkIndex: chunk.metadata?.chunkIndex,
-                  similarity: chunk.similarity,
-                })),
-                count: results.length,
-              };
-            } catch (error) {
-              console.error("[searchNotes] Error:", error);
-              return {
-                success: false,
-                error: error instanceof Error ? error.message : "Search failed",
-              };
-            }
-          },
-        }),
-        summarizeNotes: tool({
-          description:
-            "Summarize notes or content from the user's knowledge base. Use this when the user asks for summaries, overviews, or concise explanations of their notes.",
-          parameters: z.object({
-            content: z.string().describe("The content to summarize"),
-            focus: z
-              .string()
-              .optional()
-              .describe("Optional: What aspect to focus on in the summary"),
-          }),
-          execute: async ({
-            content,
-            focus,
-          }: {
-            content: string;
-            focus?: string;
-          }) => {
-            try {
-              const prompt = focus
-                ? `Summarize the following content, focusing on: ${focus}\n\nContent:\n${content}`
-                : `Provide a concise summary of the following content:\n\n${content}`;
-
-              const result = await generateText({
-                model: openai("gpt-4o"),
-                prompt,
-              });
-
-              return {
-                success: true,
-                summary: result.text,
-                focus: focus || "general",
-              };
-            } catch (error) {
-              return {
-                success: false,
-                error:
-                  error instanceof Error
-                    ? error.message
-                    : "Summarization failed",
-              };
-            }
-          },
-        }),
-        findGaps: tool({
-          description:
-            "Identify knowledge gaps in the user's notes. Use this when the user's query cannot be adequately answered from existing notes. Returns suggestions for content to add and clarifying questions to ask.",
-          parameters: z.object({
-            query: z
-              .string()
-              .describe("The user's query that cannot be fully answered"),
-            relevantContent: z
-              .string()
-              .optional()
-              .describe(
-                "Any relevant content found (may be empty or insufficient)"
-              ),
-          }),
-          execute: async ({
-            query,
-            relevantContent,
-          }: {
-            query: string;
-            relevantContent?: string;
-          }) => {
-            try {
-              const hasContent = !!relevantContent;
-              const contentSummary = hasContent
-                ? `Relevant content found:\n${relevantContent}`
-                : "No relevant content found in notes.";
+    if (!chat) {
+      return new Response(JSON.stringify({ error: "Chat not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-              const prompt = `The user asked: "${query}"
+    // History comes from the database; the client only sends the new message
+    const rows = await loadChatMessages(chatId);
+
+    // The user message to answer, and the message it follows
+    let userMessage: { id: string; content: string };
+    let parentId: string | null;
+
+    if (regenerateMessageId) {
+      // Answer a saved question again; the new reply is a sibling of the old ones
+      const target = rows.find((row) => row.id === regenerateMessageId);
+      const question =
+        target?.role === "user"
+          ? target
+          : rows.find((row) => row.id === target?.parentMessageId && row.role === "user");
+
+      if (!question) {
+        return new Response(
+          JSON.stringify({ error: "No user message to regenerate a reply for" }),
+          { status: 404, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      userMessage = { id: question.id, content: question.content };
+      parentId = question.parentMessageId;
+    } else {
+      // A new message continues the shown branch. An edited message names the
+      // parent of the one it replaces (null for the first), starting a branch.
+      if ("parentMessageId" in body) {
+        parentId = body.parentMessageId ?? null;
+        if (parentId !== null && !rows.some((row) => row.id === parentId)) {
+          return new Response(
+            JSON.stringify({ error: "Parent message not found" }),
+            { status: 404, headers: { "Content-Type": "application/json" } }
+          );
+        }
+      } else {
+        parentId = activeLeaf(rows, chat.activeMessageId);
+      }
+
+      // Save the user message before streaming, so it is kept even if the reply fails
+      const [saved]: Array<{ id: string }> = await db
+        .insert(chatMessages)
+        .values({
+          chatId,
+          parentMessageId: parentId,
+          role: "user",
+          content: message.content,
+        })
+        .returning({ id: chatMessages.id });
+      userMessage = { id: saved.id, content: message.content };
+    }
 
-${contentSummary}
+    await db
+      .update(chats)
+      .set({ activeMessageId: userMessage.id })
+      .where(eq(chats.id, chatId));
+
+    const history = chatHistory(rows, parentId);
+
+    // Keep recent turns verbatim within the model's budget; fold older turns
+    // into the chat's rolling summary
+    const budget = getHistoryBudget(CHAT_MODEL);
+    // The current date lets the model turn "last week" into date filters
+    const baseSystem = `${SYSTEM_PROMPT}\n\nToday's date is ${new Date().toISOString().slice(0, 10)}.`;
+    const fixedTokens =
+      countTokens(baseSystem) + budget.summaryTokens + countTokens(userMessage.content);
+    const historyWindow = fitHistory(history, budget, fixedTokens);
+
+    // The summary belongs to the branch it was written on; on another branch
+    // (one not containing its last message) it is rewritten from scratch
+    const summaryOnBranch =
+      chat.summary !== null &&
+      chat.summaryThrough !== null &&
+      history.some((msg) => msg.createdAt?.getTime() === chat.summaryThrough?.getTime());
+    let summary: string | null = summaryOnBranch ? chat.summary : null;
+    const unsummarized = historyWindow.overflow.filter(
+      (msg) => !summaryOnBranch || !msg.createdAt || msg.createdAt > chat.summaryThrough!
+    );
+    if (unsummarized.length > 0) {
+      try {
+        summary = await summarizeHistory(summary, unsummarized, budget.summaryTokens);
+        await db
+          .update(chats)
+          .set({
+            summary,
+            summaryThrough: unsummarized[unsummarized.length - 1].createdAt ?? new Date(),
+          })
+          .where(eq(chats.id, chatId));
+      } catch (error) {
+        // Answer with the previous summary; the turns are folded in next time
+        console.error("Chat API: Failed to update chat summary:", error);
+      }
+    }
 
-Analyze what information is missing. Provide:
-1. Suggestions for content/markdown that should be added to the notes
-2. Clarifying questions that could help gather the missing information
+    console.log("Chat API: History window:", historyWindow.report);
 
-Format your response as JSON with:
-- "contentSuggestions": array of strings describing what content to add
-- "clarifyingQuestions": array of strings with questions to ask`;
+    // Format messages for the AI model, replaying earlier tool calls
+    const formattedMessages = convertToCoreMessages([
+      ...historyWindow.messages,
+      { role: "user", content: userMessage.content },
+    ]);
 
-              const result = await generateText({
-                model: openai("gpt-4o"),
-                prompt,
-              });
+    console.log("Chat API: Starting streamText with tools");
 
-              let parsed: {
-                contentSuggestions?: string[];
-                clarifyingQuestions?: string[];
-              } = {};
-              try {
-                const jsonMatch = result.text.match(/\{[\s\S]*\}/);
-                if (jsonMatch) {
-                  parsed = JSON.parse(jsonMatch[0]);
+    return createDataStreamResponse({
+      execute: (dataStream) => {
+        // Tell the client how much of the chat the model sees verbatim
+        dataStream.writeData({ type: "history", ...historyWindow.report });
+
+        // Chunks returned by searchNotes this turn, checked by citeSources
+        const citations = createCitationTracker();
+        // Send every citation so far, so the client can replace its list
+        const sendSources = (sources: Citation[]) => {
+          const annotation: SourcesAnnotation = { type: "sources", sources };
+          dataStream.writeMessageAnnotation(annotation as unknown as JSONValue);
+        };
+
+        const result = streamText({
+          model: openai(CHAT_MODEL),
+          system: summary
+            ? `${baseSystem}\n\nSummary of the earlier conversation (older messages are not shown):\n${summary}`
+            : baseSystem,
+          messages: formattedMessages,
+          tools: {
+            searchNotes: tool({
+              description:
+                "Search the user's notes using semantic similarity. Use this when you need to find relevant information from the user's knowledge base. For best results, include specific identifiers, names, dates, or other relevant context in your query. Use the optional filters when the user narrows the search, e.g. by folder, file, tags (from note frontmatter), date range, author or project - \"my standup notes from last week\" becomes a pathPrefix or tags filter plus dateFrom/dateTo.",
+              parameters: searchFiltersSchema.extend({
+                query: z
+                  .string()
+                  .describe(
+                    "The search query to find relevant notes. Be specific - include key identifiers, names, dates, or other relevant context when searching for specific information."
+                  ),
+                mode: z
+                  .enum(SEARCH_MODES)
+                  .optional()
+                  .describe(
+                    "hybrid (default) combines meaning and exact keywords; keyword only matches exact words such as ticket numbers, acronyms or names; vector only matches by meaning"
+                  ),
+                expandQuery: z
+                  .boolean()
+                  .optional()
+                  .describe(
+                    "Also search paraphrases and sub-questions of the query (default: true). Turn off for exact lookups such as an identifier or file name."
+                  ),
+                hyde: z
+                  .boolean()
+                  .optional()
+                  .describe(
+                    "Also search with a hypothetical answer to the query (default: false). Helps vague or conceptual questions whose wording differs from the notes."
+                  ),
+              }),
+              execute: async ({
+                query,
+                mode = "hybrid",
+                expandQuery = true,
+                hyde = false,
+                ...filters
+              }: {
+                query: string;
+                mode?: SearchMode;
+                expandQuery?: boolean;
+                hyde?: boolean;
+              } & SearchFilters) => {
+                console.log(`[searchNotes] Searching for: "${query}" (${mode})`, filters);
+                try {
+                  // Search several rewrites of the query and fuse the rankings
+                  const queries = expandQuery
+                    ? await getQueryExpander().expand(query, { hyde })
+                    : undefined;
+                  if (queries) {
+                    console.log(
+                      `[searchNotes] Expanded into ${queries.length} queries:`,
+                      queries.map((q) => `${q.kind}: ${q.text}`)
+                    );
+                  }
+
+                  // Pass userId for multi-tenancy - only search user's own notes
+                  // Increased topK to 10 to get more context
+                  // Over-fetch and rerank when a reranker is configured
+                  const results = await searchSimilar(query, 10, userId, {
+                    mode,
+                    filters,
+                    rerank: true,
+                    rerankCandidates: 30,
+                    minSimilarity: SEARCH_MIN_SIMILARITY,
+                    mmrLambda: SEARCH_MMR_LAMBDA,
+                    maxPerDocument: SEARCH_MAX_PER_DOCUMENT,
+                    parents: true,
+                    expandNeighbors: SEARCH_NEIGHBOR_CHUNKS,
+                    queries,
+                  });
+                  console.log(`[searchNotes] Found ${results.length} results`);
+                  const notes = results.map((chunk) => ({
+                    chunkId: chunk.id, // Include chunk ID for tracking
+                    documentId: chunk.documentId,
+                    // The hit's parent section, or the hit merged with its neighbours
+                    content:
+                      chunk.parent?.content ??
+                      chunk.context?.content ??
+                      chunk.content,
+                    source:
+                      chunk.metadata?.source ||
+                      chunk.metadata?.fileName ||
+                      "unknown",
+                    section:
+                      chunk.parent?.breadcrumb ||
+                      chunk.metadata?.breadcrumb ||
+                      undefined,
+                    tags: chunk.metadata?.tags,
+                    date: chunk.metadata?.date,
+                    chunkIndex: chunk.metadata?.chunkIndex,
+                    passage: chunk.parent
+                      ? {
+                          sectionId: chunk.parent.id,
+                          matchedChunkIds: chunk.parent.matchedChunkIds,
+                          startOffset: chunk.parent.startOffset,
+                          endOffset: chunk.parent.endOffset,
+                        }
+                      : chunk.context && {
+                          chunkIds: chunk.context.chunkIds,
+                          startOffset: chunk.context.startOffset,
+                          endOffset: chunk.context.endOffset,
+                        },
+                    similarity: chunk.similarity,
+                    rerankScore: chunk.rerankScore,
+                    // Which of the expanded queries retrieved this chunk
+                    matchedQueries: chunk.matchedQueries,
+                  }));
+                  const numbered = citations.record(
+                    notes.map((note) => ({
+                      chunkId: note.chunkId,
+                      documentId: note.documentId,
+                      source: String(note.source),
+                      section: note.section ? String(note.section) : undefined,
+                      content: note.content,
+                      similarity: note.similarity,
+                      rerankScore: note.rerankScore,
+                    }))
+                  );
+                  return {
+                    success: true,
+                    // ref is the number to cite the result with, e.g. [1]
+                    results: notes.map((note, i) => ({ ref: numbered[i].ref, ...note })),
+                    count: results.length,
+                    expandedQueries: queries,
+                  };
+                } catch (error) {
+                  console.error("[searchNotes] Error:", error);
+                  return {
+                    success: false,
+                    error: error instanceof Error ? error.message : "Search failed",
+                  };
+                }
+              },
+            }),
+            citeSources: tool({
+              description:
+                "Cite the searchNotes results your answer uses. Call this before writing the answer, with the chunkId of each result you use and a short quote copied exactly from its content. The citations are shown to the user next to your answer.",
+              parameters: z.object({
+                citations: z
+                  .array(
+                    z.object({
+                      chunkId: z.string().describe("chunkId of a searchNotes result"),
+                      quote: z
+                        .string()
+                        .optional()
+                        .describe("Exact text from the result's content that supports the answer"),
+                    })
+                  )
+                  .min(1),
+              }),
+              execute: async ({
+                citations: requests,
+              }: {
+                citations: Array<{ chunkId: string; quote?: string }>;
+              }) => {
+                const { cited, rejected } = citations.cite(requests);
+                if (rejected.length > 0) {
+                  console.warn("[citeSources] Rejected citations:", rejected);
                 }
-              } catch {
-                parsed = {
-                  contentSuggestions: [result.text],
-                  clarifyingQuestions: ["Could you provide more details?"],
-                };
-              }
 
-              return {
-                success: true,
-                contentSuggestions: parsed.contentSuggestions || [],
-                clarifyingQuestions: parsed.clarifyingQuestions || [],
-                hasRelevantContent: hasContent,
-              };
-            } catch (error) {
-              return {
-                success: false,
-                error:
-                  error instanceof Error
-                    ? error.message
-                    : "Gap analysis failed",
-                contentSuggestions: [],
-                clarifyingQuestions: ["Could you provide more details?"],
-              };
-            }
+                sendSources(citations.citations());
+
+                return {
+                  success: rejected.length === 0,
+                  cited: cited.map(({ ref, chunkId }) => ({ ref, chunkId })),
+                  rejected,
+                };
+              },
+            }),
+            summarizeNotes: tool({
+              description:
+                "Summarize notes or content from the user's knowledge base. Use this when the user asks for summaries, overviews, or concise explanations of their notes.",
+              parameters: z.object({
+                content: z.string().describe("The content to summarize"),
+                focus: z
+                  .string()
+                  .optional()
+                  .describe("Optional: What aspect to focus on in the summary"),
+              }),
+              execute: async ({
+                content,
+                focus,
+              }: {
+                content: string;
+                focus?: string;
+              }) => {
+                try {
+                  const prompt = focus
+                    ? `Summarize the following content, focusing on: ${focus}\n\nContent:\n${content}`
+                    : `Provide a concise summary of the following content:\n\n${content}`;
+
+                  const result = await generateText({
+                    model: openai("gpt-4o"),
+                    prompt,
+                  });
+
+                  return {
+                    success: true,
+                    summary: result.text,
+                    focus: focus || "general",
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error:
+                      error instanceof Error
+                        ? error.message
+                        : "Summarization failed",
+                  };
+                }
+              },
+            }),
+            findGaps: tool({
+              description:
+                "Identify knowledge gaps in the user's notes. Use this when the user's query cannot be adequately answered from existing notes. Returns suggestions for content to add and clarifying questions to ask.",
+              parameters: z.object({
+                query: z
+                  .string()
+                  .describe("The user's query that cannot be fully answered"),
+                relevantContent: z
+                  .string()
+                  .optional()
+                  .describe(
+                    "Any relevant content found (may be empty or insufficient)"
+                  ),
+              }),
+              execute: async ({
+                query,
+                relevantContent,
+              }: {
+                query: string;
+                relevantContent?: string;
+              }) => {
+                try {
+                  const hasContent = !!relevantContent;
+                  const contentSummary = hasContent
+                    ? `Relevant content found:\n${relevantContent}`
+                    : "No relevant content found in notes.";
+
+                  const prompt = `The user asked: "${query}"
+
+    ${contentSummary}
+
+    Analyze what information is missing. Provide:
+    1. Suggestions for content/markdown that should be added to the notes
+    2. Clarifying questions that could help gather the missing information
+
+    Format your response as JSON with:
+    - "contentSuggestions": array of strings describing what content to add
+    - "clarifyingQuestions": array of strings with questions to ask`;
+
+                  const result = await generateText({
+                    model: openai("gpt-4o"),
+                    prompt,
+                  });
+
+                  let parsed: {
+                    contentSuggestions?: string[];
+                    clarifyingQuestions?: string[];
+                  } = {};
+                  try {
+                    const jsonMatch = result.text.match(/\{[\s\S]*\}/);
+                    if (jsonMatch) {
+                      parsed = JSON.parse(jsonMatch[0]);
+                    }
+                  } catch {
+                    parsed = {
+                      contentSuggestions: [result.text],
+                      clarifyingQuestions: ["Could you provide more details?"],
+                    };
+                  }
+
+                  return {
+                    success: true,
+                    contentSuggestions: parsed.contentSuggestions || [],
+                    clarifyingQuestions: parsed.clarifyingQuestions || [],
+                    hasRelevantContent: hasContent,
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error:
+                      error instanceof Error
+                        ? error.message
+                        : "Gap analysis failed",
+                    contentSuggestions: [],
+                    clarifyingQuestions: ["Could you provide more details?"],
+                  };
+                }
+              },
+            }),
+            extractEntities: tool({
+              description:
+                "Extract structured information (entities) from notes or text. Use this when the user wants to identify people, dates, topics, locations, or other key information in their notes.",
+              parameters: z.object({
+                content: z
+                  .string()
+                  .describe("The content to extract entities from"),
+              }),
+              execute: async ({ content }: { content: string }) => {
+                try {
+                  const prompt = `Extract the following entities from this content: people, dates, topics, locations, organizations, and keywords
+
+    Content:
+    ${content}
+
+    Return a JSON object with arrays for each entity type found. Use these keys:
+    - "people": array of person names
+    - "dates": array of dates, time periods, or temporal references
+    - "topics": array of main topics or subjects
+    - "locations": array of places or locations
+    - "organizations": array of organizations, companies, or groups
+    - "keywords": array of important keywords or terms
+
+    Format as JSON only, no additional text.`;
+
+                  const result = await generateText({
+                    model: openai("gpt-4o"),
+                    prompt,
+                  });
+
+                  let parsed = {};
+                  try {
+                    const jsonMatch = result.text.match(/\{[\s\S]*\}/);
+                    if (jsonMatch) {
+                      parsed = JSON.parse(jsonMatch[0]);
+                    }
+                  } catch {
+                    parsed = {};
+                  }
+
+                  return {
+                    success: true,
+                    entities: {
+                      people: (parsed as Record<string, string[]>).people || [],
+                      dates: (parsed as Record<string, string[]>).dates || [],
+                      topics: (parsed as Record<string, string[]>).topics || [],
+                      locations:
+                        (parsed as Record<string, string[]>).locations || [],
+                      organizations:
+                        (parsed as Record<string, string[]>).organizations || [],
+                      keywords: (parsed as Record<string, string[]>).keywords || [],
+                    },
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error:
+                      error instanceof Error
+                        ? error.message
+                        : "Entity extraction failed",
+                    entities: {
+                      people: [],
+                      dates: [],
+                      topics: [],
+                      locations: [],
+                      organizations: [],
+                      keywords: [],
+                    },
+                  };
+                }
+              },
+            }),
           },
-        }),
-        extractEntities: tool({
-          description:
-            "Extract structured information (entities) from notes or text. Use this when the user wants to identify people, dates, topics, locations, or other key information in their notes.",
-          parameters: z.object({
-            content: z
-              .string()
-              .describe("The content to extract entities from"),
-          }),
-          execute: async ({ content }: { content: string }) => {
+          maxSteps: 5,
+          // Keep only [n] markers that refer to results retrieved this turn
+          experimental_transform: citationMarkerTransform(citations, sendSources),
+          onFinish: async ({ text, steps }) => {
+            const sources = citations.citations();
+            const parts = messagePartsFromSteps(steps);
+            // A regenerated reply's question is already embedded
+            const saved: Array<{ id: string; content: string }> = regenerateMessageId
+              ? []
+              : [userMessage];
             try {
-              const prompt = `Extract the following entities from this content: people, dates, topics, locations, organizations, and keywords
-
-Content:
-${content}
-
-Return a JSON object with arrays for each entity type found. Use these keys:
-- "people": array of person names
-- "dates": array of dates, time periods, or temporal references
-- "topics": array of main topics or subjects
-- "locations": array of places or locations
-- "organizations": array of organizations, companies, or groups
-- "keywords": array of important keywords or terms
-
-Format as JSON only, no additional text.`;
-
-              const result = await generateText({
-                model: openai("gpt-4o"),
-                prompt,
-              });
+              const [assistantMessage]: Array<{ id: string }> = await db
+                .insert(chatMessages)
+                .values({
+                  chatId,
+                  parentMessageId: userMessage.id,
+                  role: "assistant",
+                  content: text,
+                  sources: sources.length > 0 ? sources : null,
+                  parts,
+                })
+                .returning({ id: chatMessages.id });
+              saved.push({ id: assistantMessage.id, content: text });
+              await db
+                .update(chats)
+                .set({ activeMessageId: assistantMessage.id, updatedAt: new Date() })
+                .where(eq(chats.id, chatId));
+            } catch (error) {
+              console.error("Chat API: Failed to save assistant message:", error);
+            }
 
-              let parsed = {};
+            // Title the chat after its first reply, unless it was renamed meanwhile
+            if (rows.length === 0) {
               try {
-                const jsonMatch = result.text.match(/\{[\s\S]*\}/);
-                if (jsonMatch) {
-                  parsed = JSON.parse(jsonMatch[0]);
-                }
-              } catch {
-                parsed = {};
+                const title = await generateChatTitle(userMessage.content, text);
+                await db
+                  .update(chats)
+                  .set({ title })
+                  .where(and(eq(chats.id, chatId), eq(chats.title, chat.title)));
+                dataStream.writeData({ type: "title", title });
+              } catch (error) {
+                console.error("Chat API: Failed to update chat title:", error);
               }
+            }
 
-              return {
-                success: true,
-                entities: {
-                  people: (parsed as Record<string, string[]>).people || [],
-                  dates: (parsed as Record<string, string[]>).dates || [],
-                  topics: (parsed as Record<string, string[]>).topics || [],
-                  locations:
-                    (parsed as Record<string, string[]>).locations || [],
-                  organizations:
-                    (parsed as Record<string, string[]>).organizations || [],
-                  keywords: (parsed as Record<string, string[]>).keywords || [],
-                },
-              };
+            // Embed the exchange for semantic chat search, when enabled
+            try {
+              await embedChatMessages(saved);
             } catch (error) {
-              return {
-                success: false,
-                error:
-                  error instanceof Error
-                    ? error.message
-                    : "Entity extraction failed",
-                entities: {
-                  people: [],
-                  dates: [],
-                  topics: [],
-                  locations: [],
-                  organizations: [],
-                  keywords: [],
-                },
-              };
+              console.error("Chat API: Failed to embed chat messages:", error);
             }
           },
-        }),
-      },
-      maxSteps: 5,
-    });
+        });
 
-    console.log("Chat API: StreamText result created, returning response");
+        console.log("Chat API: StreamText result created, returning response");
 
-    return result.toDataStreamResponse();
+        // Keep generating if the client disconnects, so onFinish still saves the reply
+        result.consumeStream();
+        result.mergeIntoDataStream(dataStream);
+      },
+      onError: (error) => {
+        console.error("Chat API stream error:", error);
+        return error instanceof Error ? error.message : "Internal server error";
+      },
+    });
   } catch (error) {
     console.error("Chat API error:", error);
     console.error(
@@ -0,0 +1,78 @@
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { chats } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { loadChatMessages } from "@/lib/ai/chatHistory";
+import {
+  CHAT_EXPORT_FORMATS,
+  chatToJson,
+  chatToMarkdown,
+  exportFileName,
+  type ChatExportFormat,
+} from "@/lib/ai/chatExport";
+
+// GET /api/chats/[chatId]/export?format=md|json - Download a chat. Markdown
+// holds the active branch with its sources; JSON holds every message of every
+// branch with its tool calls and citations.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { chatId } = await params;
+    const format = new URL(req.url).searchParams.get("format") || "md";
+
+    if (!CHAT_EXPORT_FORMATS.includes(format as ChatExportFormat)) {
+      return new Response(
+        JSON.stringify({
+          error: `format must be one of: ${CHAT_EXPORT_FORMATS.join(", ")}`,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify the chat belongs to the user
+    const [chat] = await db
+      .select()
+      .from(chats)
+      .where(and(eq(chats.id, chatId), eq(chats.userId, userId)));
+
+    if (!chat) {
+      return new Response(JSON.stringify({ error: "Chat not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const rows = await loadChatMessages(chatId);
+    const body =
+      format === "json"
+        ? JSON.stringify(chatToJson(chat, rows), null, 2)
+        : chatToMarkdown(chat, rows);
+
+    return new Response(body, {
+      headers: {
+        "Content-Type":
+          format === "json"
+            ? "application/json; charset=utf-8"
+            : "text/markdown; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${exportFileName(chat.title, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting chat:", error);
+    return new Response(JSON.stringify({ error: "Failed to export chat" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
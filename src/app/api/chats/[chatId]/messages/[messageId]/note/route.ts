@@ -0,0 +1,92 @@
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { chats } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { loadChatMessages } from "@/lib/ai/chatHistory";
+import { answerToNote } from "@/lib/ai/chatExport";
+import { storedCitations } from "@/lib/ai/citations";
+import { ingestDocument } from "@/lib/rag/ingestion";
+
+// POST /api/chats/[chatId]/messages/[messageId]/note - Save an assistant
+// answer as a note, embedded like an uploaded file
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string; messageId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { chatId, messageId } = await params;
+
+    // Verify the chat belongs to the user
+    const [chat] = await db
+      .select()
+      .from(chats)
+      .where(and(eq(chats.id, chatId), eq(chats.userId, userId)));
+
+    if (!chat) {
+      return new Response(JSON.stringify({ error: "Chat not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const rows = await loadChatMessages(chatId);
+    const answer = rows.find((row) => row.id === messageId);
+
+    if (!answer || answer.role !== "assistant" || !answer.content.trim()) {
+      return new Response(
+        JSON.stringify({ error: "Assistant message not found" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const question = rows.find(
+      (row) => row.id === answer.parentMessageId && row.role === "user"
+    );
+    const note = answerToNote(chat, answer, question);
+
+    // Same pipeline as /api/upload; saving the answer again updates the note
+    const result = await ingestDocument({
+      userId,
+      path: note.path,
+      title: note.title,
+      content: note.content,
+      sourceType: "chat",
+      metadata: {
+        chatId,
+        messageId,
+        citedChunkIds: storedCitations(answer.sources)
+          .map((citation) => citation.chunkId)
+          .filter(Boolean),
+      },
+    });
+    const { added, unchanged, removed } = result.chunks;
+
+    return Response.json({
+      success: true,
+      documentId: result.documentId,
+      path: result.path,
+      skipped: result.skipped,
+      added,
+      unchanged,
+      removed,
+      message: result.skipped
+        ? `${result.path} is unchanged, nothing to update`
+        : `Saved ${result.path}: ${added} added, ${unchanged} unchanged, ${removed} removed`,
+    });
+  } catch (error) {
+    console.error("Error saving answer as note:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to save answer as note" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
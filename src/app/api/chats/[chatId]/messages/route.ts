@@ -1,9 +1,11 @@
 import { auth } from '@clerk/nextjs/server';
 import { db } from '@/lib/db';
 import { chats, chatMessages } from '@/lib/db/schema';
-import { eq, and, asc } from 'drizzle-orm';
+import { eq, and } from 'drizzle-orm';
+import { activeLeaf, branchInfo, chatMessageColumns, loadChatMessages, pathTo } from '@/lib/ai/chatHistory';
 
-// GET /api/chats/[chatId]/messages - Get all messages for a chat
+// GET /api/chats/[chatId]/messages - Get the messages of the chat's active branch,
+// oldest first, each with its position among its sibling branches
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ chatId: string }> }
@@ -33,11 +35,11 @@ export async function GET(
       });
     }
 
-    const messages = await db
-      .select()
-      .from(chatMessages)
-      .where(eq(chatMessages.chatId, chatId))
-      .orderBy(asc(chatMessages.createdAt));
+    const rows = await loadChatMessages(chatId);
+    const messages = pathTo(rows, activeLeaf(rows, chat.activeMessageId)).map((message) => ({
+      ...message,
+      branch: branchInfo(rows, message),
+    }));
 
     return new Response(JSON.stringify(messages), {
       headers: { 'Content-Type': 'application/json' },
@@ -82,15 +84,23 @@ export async function POST(
       });
     }
 
+    // Continue the active branch
+    const rows = await loadChatMessages(chatId);
     const [newMessage] = await db
       .insert(chatMessages)
-      .values({ chatId, role, content, sources })
-      .returning();
+      .values({
+        chatId,
+        parentMessageId: activeLeaf(rows, chat.activeMessageId),
+        role,
+        content,
+        sources,
+      })
+      .returning(chatMessageColumns);
 
-    // Update chat's updatedAt timestamp
+    // Show the new message and update chat's updatedAt timestamp
     await db
       .update(chats)
-      .set({ updatedAt: new Date() })
+      .set({ activeMessageId: newMessage.id, updatedAt: new Date() })
       .where(eq(chats.id, chatId));
 
     return new Response(JSON.stringify(newMessage), {
@@ -1,10 +1,10 @@
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
-import { chats, chatMessages, embeddings } from "@/lib/db/schema";
-import { eq, and, inArray } from "drizzle-orm";
-import { sql } from "drizzle-orm";
+import { chats, documents, embeddings } from "@/lib/db/schema";
+import { eq, and, or, inArray } from "drizzle-orm";
+import { activeLeaf, loadChatMessages, pathTo } from "@/lib/ai/chatHistory";
 
-// GET /api/chats/[chatId]/referenced-files - Get unique file sources referenced in a chat
+// GET /api/chats/[chatId]/referenced-files - Get the documents (and chunks) referenced in a chat's active branch
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ chatId: string }> }
@@ -34,175 +34,158 @@ export async function GET(
       });
     }
 
-    // Get all messages with sources for this chat
-    const messages = await db
-      .select({
-        sources: chatMessages.sources,
-      })
-      .from(chatMessages)
-      .where(eq(chatMessages.chatId, chatId));
+    // Messages of the branch being shown
+    const rows = await loadChatMessages(chatId);
+    const messages = pathTo(rows, activeLeaf(rows, chat.activeMessageId));
 
-    // Extract unique file names and chunk references from sources
-    const referencedFiles = new Set<string>();
-    const fileChunkMap = new Map<string, Set<string>>(); // file -> chunk IDs
+    // Collect document ids, chunk ids and (for older messages) file names
+    const documentIds = new Set<string>();
+    const chunkIds = new Set<string>();
+    const quotesByChunk = new Map<string, string[]>();
+    const fileNames = new Set<string>();
 
     for (const message of messages) {
       if (message.sources) {
-        let sources: any[] = [];
+        let sources: unknown[] = [];
 
         // Handle different JSONB formats
         if (Array.isArray(message.sources)) {
           sources = message.sources;
         } else if (typeof message.sources === "object") {
-          // Could be { sources: [...] } or direct array-like object
-          sources =
-            (message.sources as any).sources ||
-            (Array.isArray((message.sources as any).data)
-              ? (message.sources as any).data
-              : []);
+          // Could be { sources: [...] } or { data: [...] }
+          const wrapped = message.sources as { sources?: unknown; data?: unknown };
+          sources = Array.isArray(wrapped.sources)
+            ? wrapped.sources
+            : Array.isArray(wrapped.data)
+            ? wrapped.data
+            : [];
         }
 
         for (const source of sources) {
           if (source && typeof source === "object") {
-            // Extract filename
-            const fileName = source.name ? String(source.name).trim() : null;
-            if (fileName) {
-              referencedFiles.add(fileName);
-              // Also add without .md extension for flexible matching
-              if (fileName.endsWith(".md")) {
-                referencedFiles.add(fileName.slice(0, -3));
-              }
-            }
-
-            // Extract chunk ID if present
-            if (source.chunkId && fileName) {
-              if (!fileChunkMap.has(fileName)) {
-                fileChunkMap.set(fileName, new Set());
-              }
-              fileChunkMap.get(fileName)!.add(String(source.chunkId));
+            const ref = source as Record<string, unknown>;
+            if (ref.documentId) documentIds.add(String(ref.documentId));
+            if (ref.chunkId) chunkIds.add(String(ref.chunkId));
+            if (ref.chunkId && typeof ref.quote === "string") {
+              const quotes = quotesByChunk.get(String(ref.chunkId)) ?? [];
+              if (!quotes.includes(ref.quote)) quotes.push(ref.quote);
+              quotesByChunk.set(String(ref.chunkId), quotes);
             }
+            if (ref.name) fileNames.add(String(ref.name).trim());
           } else if (typeof source === "string") {
-            const fileName = source.trim();
-            referencedFiles.add(fileName);
-            if (fileName.endsWith(".md")) {
-              referencedFiles.add(fileName.slice(0, -3));
-            }
+            fileNames.add(source.trim());
           }
         }
       }
     }
 
-    // Query chunks for referenced files to get chunk details
-    const fileNames = Array.from(referencedFiles);
-    if (fileNames.length === 0) {
-      return new Response(JSON.stringify({ files: [], chunks: [] }), {
-        headers: { "Content-Type": "application/json" },
-      });
+    // Resolve chunk ids to their documents
+    if (chunkIds.size > 0) {
+      const chunkDocuments = await db
+        .select({ documentId: embeddings.documentId })
+        .from(embeddings)
+        .where(
+          and(
+            eq(embeddings.userId, userId),
+            inArray(embeddings.id, Array.from(chunkIds))
+          )
+        );
+      for (const row of chunkDocuments) {
+        documentIds.add(row.documentId);
+      }
+    }
+
+    // Resolve legacy name-only sources by title or path
+    if (fileNames.size > 0) {
+      const names = Array.from(fileNames).flatMap((name) =>
+        name.endsWith(".md") ? [name] : [name, `${name}.md`]
+      );
+      const namedDocuments = await db
+        .select({ id: documents.id })
+        .from(documents)
+        .where(
+          and(
+            eq(documents.userId, userId),
+            or(inArray(documents.title, names), inArray(documents.path, names))
+          )
+        );
+      for (const row of namedDocuments) {
+        documentIds.add(row.id);
+      }
     }
 
-    // Query all chunks for the user and filter by referenced files in JavaScript
-    // This is simpler than complex SQL array matching
-    const allChunks = await db
+    if (documentIds.size === 0) {
+      return new Response(
+        JSON.stringify({ documentIds: [], files: [], chunks: [] }),
+        { headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Load the referenced documents and their chunks (user-scoped)
+    const referencedDocuments = await db
+      .select({ id: documents.id, title: documents.title })
+      .from(documents)
+      .where(
+        and(
+          eq(documents.userId, userId),
+          inArray(documents.id, Array.from(documentIds))
+        )
+      );
+
+    const documentChunks = await db
       .select({
         id: embeddings.id,
+        documentId: embeddings.documentId,
         metadata: embeddings.metadata,
         content: embeddings.content,
       })
       .from(embeddings)
-      .where(eq(embeddings.userId, userId));
-
-    // Filter and transform chunks
-    const chunksQuery = allChunks
-      .filter((chunk: { id: string; metadata: any; content: string }) => {
-        const metadata = chunk.metadata as Record<string, any> | null;
-        if (!metadata) return false;
-
-        const source = metadata.source || metadata.Source;
-        const fileName = metadata.fileName || metadata.FileName || source;
-        if (!source && !fileName) return false;
-
-        // Check if this chunk belongs to a referenced file
-        return fileNames.some((fn) => {
-          const normalizedFn = fn.replace(/\.md$/, "");
-          const normalizedSource = String(source || "").replace(/\.md$/, "");
-          const normalizedFileName = String(fileName || "").replace(
-            /\.md$/,
-            ""
-          );
-          return (
-            normalizedSource === fn ||
-            normalizedSource === normalizedFn ||
-            normalizedFileName === fn ||
-            normalizedFileName === normalizedFn ||
-            source === fn ||
-            fileName === fn
-          );
-        });
-      })
-      .map((chunk: { id: string; metadata: any; content: string }) => {
-        const metadata = chunk.metadata as Record<string, any> | null;
-        return {
-          id: chunk.id,
-          source: metadata?.source || metadata?.Source || "unknown",
-          fileName:
-            metadata?.fileName ||
-            metadata?.FileName ||
-            metadata?.source ||
-            metadata?.Source ||
-            "unknown",
-          chunkIndex:
-            typeof metadata?.chunkIndex === "number"
-              ? metadata.chunkIndex
-              : typeof metadata?.ChunkIndex === "number"
-              ? metadata.ChunkIndex
-              : typeof metadata?.chunkIndex === "string"
-              ? parseInt(metadata.chunkIndex, 10)
-              : null,
-          content: chunk.content,
-        };
-      });
-
-    // Organize chunks by file
-    const chunksByFile = new Map<
-      string,
-      Array<{
-        id: string;
-        chunkIndex: number | null;
-        content: string;
-        isReferenced: boolean;
-      }>
-    >();
-
-    for (const chunk of chunksQuery) {
-      const fileKey = chunk.fileName || chunk.source || "unknown";
-      if (!chunksByFile.has(fileKey)) {
-        chunksByFile.set(fileKey, []);
-      }
-
-      const chunkSet = fileChunkMap.get(fileKey);
-      // Only mark as referenced if this specific chunk ID is in the set
-      // If no chunk IDs are tracked, don't mark any chunks as referenced
-      chunksByFile.get(fileKey)!.push({
-        id: chunk.id,
-        chunkIndex: chunk.chunkIndex,
-        content: chunk.content,
-        isReferenced: chunkSet ? chunkSet.has(chunk.id) : false,
-      });
-    }
-
-    // Convert to response format
-    const chunksResponse = Array.from(chunksByFile.entries()).map(
-      ([file, chunks]) => ({
-        file,
-        chunks: chunks.sort(
-          (a, b) => (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0)
-        ),
+      .where(
+        and(
+          eq(embeddings.userId, userId),
+          inArray(
+            embeddings.documentId,
+            referencedDocuments.map((doc: { id: string }) => doc.id)
+          )
+        )
+      );
+
+    const chunksResponse = referencedDocuments.map(
+      (doc: { id: string; title: string }) => ({
+        documentId: doc.id,
+        file: doc.title,
+        chunks: documentChunks
+          .filter(
+            (chunk: { documentId: string }) => chunk.documentId === doc.id
+          )
+          .map(
+            (chunk: { id: string; metadata: unknown; content: string }) => {
+              const metadata = chunk.metadata as Record<string, unknown> | null;
+              return {
+                id: chunk.id,
+                chunkIndex:
+                  typeof metadata?.chunkIndex === "number"
+                    ? metadata.chunkIndex
+                    : null,
+                content: chunk.content,
+                // Only chunks cited by id are marked, never whole files
+                isReferenced: chunkIds.has(chunk.id),
+                // Quoted spans cited from this chunk, to highlight in its content
+                quotes: quotesByChunk.get(chunk.id) ?? [],
+              };
+            }
+          )
+          .sort(
+            (a: { chunkIndex: number | null }, b: { chunkIndex: number | null }) =>
+              (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0)
+          ),
       })
     );
 
     return new Response(
       JSON.stringify({
-        files: Array.from(referencedFiles),
+        documentIds: referencedDocuments.map((doc: { id: string }) => doc.id),
+        files: referencedDocuments.map((doc: { title: string }) => doc.title),
         chunks: chunksResponse,
       }),
       {
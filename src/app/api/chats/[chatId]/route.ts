@@ -0,0 +1,88 @@
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { chats } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { latestLeaf, loadChatMessages } from "@/lib/ai/chatHistory";
+
+const MAX_TITLE_LENGTH = 200;
+
+// PATCH /api/chats/[chatId] - Rename a chat ({ title }) or switch branch
+// ({ activeMessageId }: show the newest branch through that message)
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { chatId } = await params;
+    const body = await req.json().catch(() => ({}));
+    const update: { title?: string; activeMessageId?: string | null } = {};
+
+    if ("title" in body) {
+      const title = typeof body.title === "string" ? body.title.trim() : "";
+      if (!title || title.length > MAX_TITLE_LENGTH) {
+        return new Response(
+          JSON.stringify({
+            error: `Title must be 1-${MAX_TITLE_LENGTH} characters`,
+          }),
+          { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+      }
+      update.title = title;
+    }
+
+    if ("activeMessageId" in body) {
+      const [chat] = await db
+        .select({ id: chats.id })
+        .from(chats)
+        .where(and(eq(chats.id, chatId), eq(chats.userId, userId)));
+      const rows = chat ? await loadChatMessages(chatId) : [];
+
+      if (!rows.some((row) => row.id === body.activeMessageId)) {
+        return new Response(JSON.stringify({ error: "Message not found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+      // Show the branch down to its newest reply, not just the chosen message
+      update.activeMessageId = latestLeaf(rows, body.activeMessageId);
+    }
+
+    if (Object.keys(update).length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Nothing to update: send title or activeMessageId" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Only update if the chat belongs to the user
+    const [updatedChat] = await db
+      .update(chats)
+      .set(update)
+      .where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
+      .returning();
+
+    if (!updatedChat) {
+      return new Response(JSON.stringify({ error: "Chat not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return Response.json(updatedChat);
+  } catch (error) {
+    console.error("Error updating chat:", error);
+    return new Response(JSON.stringify({ error: "Failed to update chat" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
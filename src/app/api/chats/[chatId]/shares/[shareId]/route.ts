@@ -0,0 +1,52 @@
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { chatShares } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+
+// DELETE /api/chats/[chatId]/shares/[shareId] - Revoke a link
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string; shareId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { chatId, shareId } = await params;
+
+    // Only revoke the user's own links; the row is kept as a record
+    const [revoked] = await db
+      .update(chatShares)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(chatShares.id, shareId),
+          eq(chatShares.chatId, chatId),
+          eq(chatShares.userId, userId),
+          isNull(chatShares.revokedAt)
+        )
+      )
+      .returning();
+
+    if (!revoked) {
+      return new Response(JSON.stringify({ error: "Share link not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return Response.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking chat share:", error);
+    return new Response(JSON.stringify({ error: "Failed to revoke share link" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,151 @@
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/lib/db";
+import { chats, chatShares } from "@/lib/db/schema";
+import { eq, and, desc, isNull } from "drizzle-orm";
+import { activeLeaf, loadChatMessages, pathTo } from "@/lib/ai/chatHistory";
+import {
+  MAX_SHARE_DAYS,
+  citedChunkIds,
+  createShareToken,
+  isShareActive,
+  type ChatShare,
+} from "@/lib/ai/chatShares";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/chats/[chatId]/shares - List the chat's links that still work
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { chatId } = await params;
+
+    const shares: ChatShare[] = await db
+      .select()
+      .from(chatShares)
+      .where(
+        and(
+          eq(chatShares.chatId, chatId),
+          eq(chatShares.userId, userId),
+          isNull(chatShares.revokedAt)
+        )
+      )
+      .orderBy(desc(chatShares.createdAt));
+
+    return Response.json(shares.filter((share) => isShareActive(share)));
+  } catch (error) {
+    console.error("Error fetching chat shares:", error);
+    return new Response(JSON.stringify({ error: "Failed to fetch shares" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+// POST /api/chats/[chatId]/shares - Create a read-only link to the chat as
+// shown now. Body: { expiresInDays?: number, includedChunkIds?: string[] }.
+// Only the listed cited chunks show their text through the link.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ chatId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { chatId } = await params;
+    const body = await req.json().catch(() => ({}));
+    const { expiresInDays, includedChunkIds } = body;
+
+    if (
+      expiresInDays != null &&
+      (typeof expiresInDays !== "number" ||
+        !(expiresInDays > 0) ||
+        expiresInDays > MAX_SHARE_DAYS)
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: `expiresInDays must be a positive number of days, at most ${MAX_SHARE_DAYS}`,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (
+      includedChunkIds != null &&
+      (!Array.isArray(includedChunkIds) ||
+        !includedChunkIds.every((id: unknown) => typeof id === "string"))
+    ) {
+      return new Response(
+        JSON.stringify({ error: "includedChunkIds must be an array of chunk ids" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Verify the chat belongs to the user
+    const [chat] = await db
+      .select({ id: chats.id, activeMessageId: chats.activeMessageId })
+      .from(chats)
+      .where(and(eq(chats.id, chatId), eq(chats.userId, userId)));
+
+    if (!chat) {
+      return new Response(JSON.stringify({ error: "Chat not found" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Share the branch shown now; messages added later stay private
+    const rows = await loadChatMessages(chatId);
+    const messageId = activeLeaf(rows, chat.activeMessageId);
+
+    if (!messageId) {
+      return new Response(
+        JSON.stringify({ error: "Cannot share a chat without messages" }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    // Only chunks cited on the shared branch can have their text shown
+    const cited = new Set(citedChunkIds(pathTo(rows, messageId)));
+    const [share] = await db
+      .insert(chatShares)
+      .values({
+        chatId,
+        userId,
+        token: createShareToken(),
+        messageId,
+        includedChunkIds: ((includedChunkIds ?? []) as string[]).filter((id) =>
+          cited.has(id)
+        ),
+        expiresAt: expiresInDays
+          ? new Date(Date.now() + expiresInDays * DAY_MS)
+          : null,
+      })
+      .returning();
+
+    return Response.json(share, { status: 201 });
+  } catch (error) {
+    console.error("Error creating chat share:", error);
+    return new Response(JSON.stringify({ error: "Failed to create share link" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
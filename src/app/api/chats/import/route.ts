@@ -0,0 +1,97 @@
+import { auth } from "@clerk/nextjs/server";
+import {
+  CHAT_IMPORT_FORMATS,
+  detectChatImportFormat,
+  importConversations,
+  parseChatImport,
+  type ChatImportFormat,
+} from "@/lib/ai/chatImport";
+
+// Importing and embedding large exports takes a while
+export const maxDuration = 300;
+
+// POST /api/chats/import - Import conversations from a ChatGPT export
+// (conversations.json) or JSONL transcripts. Form fields: file, format
+// (chatgpt | jsonl, default: detected) and asNotes ("true" to also ingest
+// each conversation as a note).
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return new Response(JSON.stringify({ error: "No file provided" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const text = await file.text();
+    const formatField = formData.get("format");
+    const format =
+      typeof formatField === "string" && formatField.trim()
+        ? formatField.trim()
+        : detectChatImportFormat(file.name, text);
+
+    if (!CHAT_IMPORT_FORMATS.includes(format as ChatImportFormat)) {
+      return new Response(
+        JSON.stringify({
+          error: `format must be one of: ${CHAT_IMPORT_FORMATS.join(", ")}`,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    let parsed;
+    try {
+      parsed = parseChatImport(text, format as ChatImportFormat, file.name);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({
+          error: error instanceof Error ? error.message : "Could not read the export",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    if (parsed.conversations.length === 0) {
+      return new Response(
+        JSON.stringify({
+          error: "No conversations found in the file",
+          warnings: parsed.warnings,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await importConversations(userId, parsed.conversations, {
+      source: format as ChatImportFormat,
+      asNotes: formData.get("asNotes") === "true",
+    });
+
+    return Response.json({
+      success: true,
+      format,
+      ...result,
+      warnings: parsed.warnings,
+      message:
+        `Imported ${result.imported.length} chat(s), skipped ${result.skipped} already imported` +
+        (result.failed.length > 0 ? `, ${result.failed.length} failed` : ""),
+    });
+  } catch (error) {
+    console.error("Error importing chats:", error);
+    return new Response(JSON.stringify({ error: "Failed to import chats" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import { auth } from "@clerk/nextjs/server";
+import { searchChats } from "@/lib/ai/chatSearch";
+
+const MAX_LIMIT = 50;
+
+// GET /api/chats/search?q=...&semantic=true&limit=20 - Search the user's chat history
+export async function GET(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = (searchParams.get("q") || "").trim();
+
+    if (!query) {
+      return new Response(JSON.stringify({ error: "q is required" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const semanticParam = searchParams.get("semantic");
+    const limit = parseInt(searchParams.get("limit") || "", 10);
+
+    const results = await searchChats(userId, query, {
+      semantic: semanticParam === null ? undefined : semanticParam === "true",
+      limit: limit > 0 ? Math.min(limit, MAX_LIMIT) : undefined,
+    });
+
+    return Response.json(results);
+  } catch (error) {
+    console.error("Error searching chats:", error);
+    return new Response(JSON.stringify({ error: "Failed to search chats" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { deleteDocument } from "@/lib/rag/documents";
+
+/**
+ * DELETE /api/documents/[documentId]
+ * Delete a document and all of its chunks
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    // Check authentication
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { documentId } = await params;
+
+    // Ids are UUIDs; anything else can't name a document
+    if (!z.string().uuid().safeParse(documentId).success) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    // Only deletes if the document belongs to the user; chunks cascade
+    const deleted = await deleteDocument(userId, documentId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      documentId: deleted.id,
+      message: `Deleted ${deleted.title}`,
+    });
+  } catch (error) {
+    console.error("Error deleting document:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to delete document",
+      },
+      { status: 500 }
+    );
+  }
+}
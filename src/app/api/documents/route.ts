@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { listDocuments } from "@/lib/rag/documents";
+
+/**
+ * GET /api/documents
+ * List the user's documents with their chunk counts
+ */
+export async function GET() {
+  try {
+    // Check authentication
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const documents = await listDocuments(userId);
+
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error("Error fetching documents:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to fetch documents",
+      },
+      { status: 500 }
+    );
+  }
+}
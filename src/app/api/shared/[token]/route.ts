@@ -0,0 +1,32 @@
+import { loadSharedChat } from "@/lib/ai/chatShares";
+
+// GET /api/shared/[token] - Public, read-only view of a shared chat. No
+// sign-in: the middleware lets this path through and the token is the only
+// credential. Tool calls and unshared source text are left out.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const shared = await loadSharedChat(token);
+
+    // Unknown, revoked and expired links look the same
+    if (!shared) {
+      return new Response(
+        JSON.stringify({ error: "This link is invalid, expired or revoked" }),
+        { status: 404, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    return Response.json(shared, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Error loading shared chat:", error);
+    return new Response(
+      JSON.stringify({ error: "Failed to load shared chat" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
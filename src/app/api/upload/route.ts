@@ -1,129 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { insertEmbedding } from "@/lib/rag/vectorStore";
+import { ingestDocument } from "@/lib/rag/ingestion";
+import { stripFrontmatter } from "@/lib/rag/chunking";
+import { chunkingConfigSchema } from "@/lib/rag/chunkingStrategies";
 import { auth } from "@clerk/nextjs/server";
 
-/**
- * Simple text chunking function.
- * Splits text into overlapping chunks to preserve context.
- */
-function chunkText(
-  text: string,
-  chunkSize: number = 1000,
-  chunkOverlap: number = 200
-): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-
-  // Helper to find the last word boundary (space, tab, newline) before a position
-  const findLastWordBoundary = (str: string, maxPos: number): number => {
-    // Look for spaces, tabs, newlines - but not at position 0
-    for (let i = Math.min(maxPos, str.length - 1); i > 0; i--) {
-      const char = str[i];
-      if (char === " " || char === "\t" || char === "\n") {
-        return i;
-      }
-    }
-    return -1;
-  };
-
-  // Helper to find the next word boundary after a position
-  const findNextWordBoundary = (str: string, minPos: number): number => {
-    for (let i = minPos; i < str.length; i++) {
-      const char = str[i];
-      if (char === " " || char === "\t" || char === "\n") {
-        return i;
-      }
-    }
-    return str.length;
-  };
-
-  while (start < text.length) {
-    const idealEnd = Math.min(start + chunkSize, text.length);
-    let chunk = text.slice(start, idealEnd);
-
-    // If this is the last chunk, use it as-is
-    if (idealEnd >= text.length) {
-      chunks.push(chunk.trim());
-      break;
-    }
-
-    // Try to find a good split point
-    // First priority: sentence boundaries (period followed by space, or newline)
-    let splitPoint = -1;
-    const lastPeriod = chunk.lastIndexOf(".");
-    const lastNewline = chunk.lastIndexOf("\n");
-
-    // Check if period is followed by space/newline (sentence end)
-    if (lastPeriod >= chunkSize * 0.5 && lastPeriod < chunk.length - 1) {
-      const afterPeriod = chunk[lastPeriod + 1];
-      if (afterPeriod === " " || afterPeriod === "\n" || afterPeriod === "\t") {
-        splitPoint = lastPeriod + 1; // Include the space after period
-      }
-    }
-
-    // Use newline if it's a good boundary
-    if (splitPoint === -1 && lastNewline >= chunkSize * 0.5) {
-      splitPoint = lastNewline;
-    }
-
-    // Second priority: word boundaries (spaces, tabs)
-    if (splitPoint === -1 || splitPoint < chunkSize * 0.5) {
-      const wordBoundary = findLastWordBoundary(chunk, chunk.length - 1);
-      if (wordBoundary > chunkSize * 0.5) {
-        splitPoint = wordBoundary;
-      } else if (wordBoundary > 0) {
-        // Prefer any word boundary over cutting a word
-        splitPoint = wordBoundary;
-      }
-    }
-
-    // If we found a split point, use it
-    if (splitPoint > 0) {
-      chunk = chunk.slice(0, splitPoint).trimEnd();
-
-      // Calculate next start with overlap, ensuring it starts at a word boundary
-      const chunkEnd = start + splitPoint;
-      const overlapStart = chunkEnd - chunkOverlap;
-      const overlapStartBounded = Math.max(start, overlapStart);
-
-      // Find the nearest word boundary at or before the overlap start position
-      // We need to search in the original text, not the chunk
-      const textBeforeOverlap = text.slice(0, overlapStartBounded);
-      const overlapBoundary = findLastWordBoundary(
-        textBeforeOverlap,
-        textBeforeOverlap.length
-      );
-
-      // Use word boundary if found and it's not before current start
-      if (overlapBoundary >= start) {
-        start = overlapBoundary + 1; // Start after the space/whitespace
-      } else {
-        // If no boundary found going back, find next boundary forward from overlap start
-        const nextBoundary = findNextWordBoundary(text, overlapStartBounded);
-        start = nextBoundary < text.length ? nextBoundary + 1 : chunkEnd;
-      }
-    } else {
-      // Should not happen if text has spaces, but handle gracefully
-      // Find next word boundary forward
-      const nextBoundary = findNextWordBoundary(text, idealEnd);
-      if (nextBoundary < text.length) {
-        chunk = text.slice(start, nextBoundary).trimEnd();
-        start = nextBoundary + 1;
-      } else {
-        // Last chunk
-        chunks.push(chunk.trim());
-        break;
-      }
-    }
-
-    if (chunk.trim().length > 0) {
-      chunks.push(chunk.trim());
-    }
-  }
-
-  return chunks.filter((chunk) => chunk.length > 0);
-}
-
 export async function POST(req: NextRequest) {
   try {
     // Check authentication
@@ -147,40 +27,75 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Read file content
-    const text = await file.text();
+    // Optional chunking fields; omitted ones fall back to the defaults
+    const chunkingFields = Object.fromEntries(
+      ["strategy", "chunkSize", "chunkOverlap", "breakpointPercentile"].flatMap(
+        (key) => {
+          const value = formData.get(key);
+          return typeof value === "string" && value.trim()
+            ? [[key, value.trim()]]
+            : [];
+        }
+      )
+    );
+    const chunking = chunkingConfigSchema.safeParse(chunkingFields);
 
-    // Remove markdown metadata/frontmatter if present
-    const cleanedContent = text.replace(/^---[\s\S]*?---\n/, "");
+    if (!chunking.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid chunking options",
+          details: chunking.error.issues.map(
+            (issue) => `${issue.path.join(".")}: ${issue.message}`
+          ),
+        },
+        { status: 400 }
+      );
+    }
 
-    // Split into chunks
-    const chunks = chunkText(cleanedContent);
+    // Read file content
+    const text = await file.text();
 
-    if (chunks.length === 0) {
+    if (!stripFrontmatter(text).body.trim()) {
       return NextResponse.json(
         { error: "File appears to be empty after processing" },
         { status: 400 }
       );
     }
 
-    // Insert each chunk with metadata
-    let inserted = 0;
-    for (const chunk of chunks) {
-      await insertEmbedding(chunk, userId, {
-        source: file.name,
-        fileName: file.name,
-        uploadedAt: new Date().toISOString(),
-        chunkIndex: inserted,
-        totalChunks: chunks.length,
-      });
-      inserted++;
-    }
+    // Optional folder-relative path, so notes.md in two folders stay separate
+    const pathField = formData.get("path");
+    const path =
+      typeof pathField === "string" && pathField.trim()
+        ? pathField.trim()
+        : file.name;
+
+    // Store the document, re-embedding only chunks whose text changed. The
+    // upload time is the document's updated_at; chunk metadata stays stable
+    // so unchanged chunks are left alone
+    const result = await ingestDocument({
+      userId,
+      path,
+      title: file.name,
+      content: text,
+      mimeType: file.type || "text/markdown",
+      chunking: chunking.data,
+    });
+    const { added, unchanged, removed } = result.chunks;
 
     return NextResponse.json({
       success: true,
+      documentId: result.documentId,
       fileName: file.name,
-      chunksInserted: inserted,
-      message: `Successfully processed ${file.name} into ${inserted} chunks`,
+      path: result.path,
+      skipped: result.skipped,
+      added,
+      unchanged,
+      removed,
+      chunksInserted: added,
+      chunking: result.chunking,
+      message: result.skipped
+        ? `${file.name} is unchanged, nothing to update`
+        : `Processed ${file.name}: ${added} added, ${unchanged} unchanged, ${removed} removed`,
     });
   } catch (error) {
     console.error("Upload error:", error);
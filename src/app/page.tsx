@@ -6,10 +6,13 @@ import { ChatInterface } from '@/components/chat/chat-interface';
 import { FileUpload } from '@/components/upload/file-upload';
 import { EmbeddingsList } from '@/components/embeddings/embeddings-list';
 import { ChatList, ChatListRef } from '@/components/chat/chat-list';
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
 
-export default function Home() {
-  const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
+function HomeContent() {
+  // Start on the chat a link points to (/?chat=<id>), e.g. from a saved answer note
+  const searchParams = useSearchParams();
+  const [selectedChatId, setSelectedChatId] = useState<string | null>(() => searchParams.get('chat'));
   const [chatKey, setChatKey] = useState(0); // Force remount on new chat
   const chatListRef = useRef<ChatListRef>(null);
 
@@ -27,6 +30,11 @@ export default function Home() {
     // Refresh the chat list to show the new chat
     chatListRef.current?.refresh();
   }, []);
+
+  const handleChatUpdated = useCallback(() => {
+    // Pick up the generated title and new ordering
+    chatListRef.current?.refresh();
+  }, []);
   return (
     <main className="flex min-h-screen flex-col items-center bg-gray-50 p-4">
       <div className="w-full max-w-7xl flex flex-col h-[85vh]">
@@ -85,6 +93,7 @@ export default function Home() {
                 key={chatKey} 
                 chatId={selectedChatId} 
                 onChatCreated={handleChatCreated}
+                onChatUpdated={handleChatUpdated}
               />
             </div>
             
@@ -104,3 +113,12 @@ export default function Home() {
     </main>
   );
 }
+
+export default function Home() {
+  // useSearchParams needs a Suspense boundary when the page is prerendered
+  return (
+    <Suspense>
+      <HomeContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import type { Message } from 'ai/react';
+import { Bot, User, Loader2 } from 'lucide-react';
+import { MessageContent } from '@/components/chat/chat-interface';
+import type { SharedChat } from '@/lib/ai/chatShares';
+
+export default function SharedChatPage() {
+  const { token } = useParams<{ token: string }>();
+  const [chat, setChat] = useState<SharedChat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/shared/${encodeURIComponent(token)}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load shared chat');
+        setChat(data);
+      } catch (error) {
+        console.error('Failed to load shared chat:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load shared chat');
+      }
+    };
+    load();
+  }, [token]);
+
+  // Shared citations carry no ids; the message view keys and links them by ref
+  const messages: Message[] = (chat?.messages ?? []).map((m) => ({
+    id: m.id,
+    role: m.role,
+    content: m.content,
+    annotations: [
+      { type: 'sources', sources: m.sources.map((source) => ({ ...source, chunkId: '', documentId: '' })) },
+    ],
+  }));
+
+  return (
+    <main className="flex min-h-screen flex-col items-center bg-gray-50 p-4">
+      <div className="w-full max-w-3xl space-y-4">
+        <div className="p-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+          <h1 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+            <Bot className="w-6 h-6 text-blue-600" />
+            {chat?.title ?? 'Shared chat'}
+          </h1>
+          {chat && (
+            <p className="text-xs text-gray-400 mt-1">
+              Read-only copy shared from NoteWise AI
+              {chat.sharedAt && ` on ${new Date(chat.sharedAt).toLocaleDateString()}`}
+              {chat.expiresAt && ` · available until ${new Date(chat.expiresAt).toLocaleDateString()}`}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 space-y-6">
+          {error ? (
+            <p className="text-center text-sm text-gray-500 py-10">{error}</p>
+          ) : !chat ? (
+            <div className="flex justify-center py-10 text-gray-400">
+              <Loader2 className="w-6 h-6 animate-spin" />
+            </div>
+          ) : (
+            messages.map((m) => (
+              <div key={m.id} className={`flex gap-3 ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                {m.role === 'assistant' && (
+                  <div className="w-8 h-8 rounded-full bg-blue-100 flex items-center justify-center flex-shrink-0">
+                    <Bot className="w-5 h-5 text-blue-600" />
+                  </div>
+                )}
+                <div className={`max-w-[85%] flex flex-col gap-1 ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+                  <MessageContent message={m} />
+                </div>
+                {m.role === 'user' && (
+                  <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center flex-shrink-0">
+                    <User className="w-5 h-5 text-gray-600" />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
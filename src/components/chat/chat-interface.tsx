@@ -1,44 +1,250 @@
 'use client';
 
 import { useChat, type Message } from 'ai/react';
-import { Send, Bot, User, FileText } from 'lucide-react';
-import { useEffect, useRef, useMemo, useCallback } from 'react';
+import type { JSONValue, ToolInvocation } from 'ai';
+import { Send, Bot, User, FileText, X, ChevronLeft, ChevronRight, Wrench, Loader2, Pencil, RefreshCw, FilePlus, Check, Download } from 'lucide-react';
+import { useEffect, useRef, useMemo, useCallback, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { storedCitations, type Citation } from '@/lib/ai/citations';
+import { SharePanel } from '@/components/chat/share-panel';
 
-interface ParsedSource {
-  name: string;
-  relevance: number;
+const LEGACY_SOURCES_BLOCK = /---sources---[\s\S]*?---end-sources---/;
+
+/**
+ * Citations of a message: the latest sources annotation streamed by the
+ * server, or the sources stored with a saved message. Messages saved before
+ * structured citations only carry a name and relevance.
+ */
+function messageSources(message: Pick<Message, 'annotations'>): Citation[] {
+  const annotation = [...(message.annotations ?? [])]
+    .reverse()
+    .find(
+      (value): value is { [key: string]: JSONValue } =>
+        !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'sources'
+    );
+  return storedCitations(annotation?.sources);
 }
 
-function parseSourcesFromContent(content: string): { mainContent: string; sources: ParsedSource[] } {
-  const sourcesMatch = content.match(/---sources---\n([\s\S]*?)---end-sources---/);
-  
-  if (!sourcesMatch) {
-    return { mainContent: content, sources: [] };
-  }
-  
-  const mainContent = content.replace(/---sources---[\s\S]*?---end-sources---/, '').trim();
-  const sourcesText = sourcesMatch[1];
-  
-  const sources: ParsedSource[] = [];
-  const lines = sourcesText.split('\n').filter(line => line.trim().startsWith('-'));
-  
-  for (const line of lines) {
-    const match = line.match(/^-\s*(.+?)\s*\(relevance:\s*([\d.]+)\)/);
-    if (match) {
-      sources.push({
-        name: match[1].trim(),
-        relevance: parseFloat(match[2]),
-      });
-    }
+// Fenced blocks (unclosed while streaming) and inline code spans
+const CODE_SPAN_RE = /(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]+`)/;
+
+/**
+ * Turn inline markers ([1], [1, 3]) into links the markdown renderer shows
+ * as citation chips. The server has already removed markers that refer to no
+ * retrieved chunk. Code is left as written, so `arr[0]` stays code.
+ */
+function linkCitationMarkers(content: string): string {
+  return content
+    .split(CODE_SPAN_RE)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part.replace(/(?<!\w)\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g, (_, refs: string) =>
+            refs
+              .split(',')
+              .map((ref) => `[${ref.trim()}](#cite-${ref.trim()})`)
+              .join('')
+          )
+    )
+    .join('');
+}
+
+function CitationChip({
+  refNumber,
+  citation,
+  active,
+  onSelect,
+}: {
+  refNumber: number;
+  citation?: Citation;
+  active: boolean;
+  onSelect: (ref: number) => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(refNumber)}
+      disabled={!citation}
+      title={citation ? `${citation.source}${citation.section ? ` › ${citation.section}` : ''}` : undefined}
+      className={`inline-flex items-center justify-center min-w-[1.25rem] h-4 px-1 mx-0.5 align-text-top rounded text-[10px] font-semibold no-underline transition-colors ${
+        active
+          ? 'bg-blue-600 text-white'
+          : 'bg-blue-100 text-blue-700 hover:bg-blue-200 disabled:bg-gray-200 disabled:text-gray-500'
+      }`}
+    >
+      {refNumber}
+    </button>
+  );
+}
+
+/**
+ * The text a citation points at, with the cited sentence highlighted.
+ */
+function CitationPanel({ citation, onClose }: { citation: Citation; onClose: () => void }) {
+  const { content, quoteStart, quoteEnd } = citation;
+  const hasSpan = typeof quoteStart === 'number' && typeof quoteEnd === 'number';
+
+  return (
+    <div className="rounded-lg border border-blue-200 bg-white p-3 text-xs text-gray-700 shadow-sm">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="flex items-center gap-1.5 min-w-0">
+          <span className="font-semibold text-blue-700">[{citation.ref}]</span>
+          <FileText className="w-3 h-3 flex-shrink-0" />
+          <span className="font-medium truncate">{citation.source}</span>
+          {citation.section && <span className="text-gray-400 truncate">{citation.section}</span>}
+        </div>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {content ? (
+        <p className="whitespace-pre-wrap max-h-60 overflow-y-auto leading-relaxed">
+          {hasSpan ? (
+            <>
+              {content.slice(0, quoteStart)}
+              <mark className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                {content.slice(quoteStart, quoteEnd)}
+              </mark>
+              {content.slice(quoteEnd)}
+            </>
+          ) : (
+            content
+          )}
+        </p>
+      ) : (
+        // Shared links leave out the text of chunks the owner didn't include
+        <p className="italic text-gray-400">Source text not shared</p>
+      )}
+    </div>
+  );
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  searchNotes: 'Searched notes',
+  citeSources: 'Cited sources',
+  summarizeNotes: 'Summarized',
+  findGaps: 'Looked for gaps',
+  extractEntities: 'Extracted entities',
+};
+
+/**
+ * One-line description of a tool call, e.g. the search query.
+ */
+function describeToolCall(toolName: string, args: Record<string, unknown>, result: unknown): string {
+  const output = result && typeof result === 'object' ? (result as Record<string, unknown>) : {};
+  switch (toolName) {
+    case 'searchNotes':
+      return `"${args.query}"${typeof output.count === 'number' ? ` · ${output.count} results` : ''}`;
+    case 'citeSources':
+      return Array.isArray(args.citations) ? `${args.citations.length} chunks` : '';
+    case 'summarizeNotes':
+      return typeof args.focus === 'string' ? args.focus : '';
+    case 'findGaps':
+      return typeof args.query === 'string' ? `"${args.query}"` : '';
+    default:
+      return '';
   }
-  
-  return { mainContent, sources };
 }
 
-function SourceBadge({ source }: { source: ParsedSource }) {
-  const relevancePercent = Math.round(source.relevance * 100);
+/**
+ * Tool calls of an assistant message, collapsed to one line each. Expanding
+ * a call shows its arguments and result.
+ */
+function ToolCalls({ parts }: { parts: Message['parts'] }) {
+  const invocations = (parts ?? []).flatMap((part) =>
+    part.type === 'tool-invocation' ? [part.toolInvocation] : []
+  );
+  if (invocations.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      {invocations.map((invocation) => {
+        const result = invocation.state === 'result' ? invocation.result : undefined;
+        const failed = result && typeof result === 'object' && result.success === false;
+        return (
+          <details
+            key={invocation.toolCallId}
+            className="group rounded-md border border-gray-200 bg-white text-xs text-gray-600"
+          >
+            <summary className="flex items-center gap-1.5 px-2 py-1 cursor-pointer select-none list-none">
+              <ChevronRight className="w-3 h-3 transition-transform group-open:rotate-90" />
+              <Wrench className="w-3 h-3 text-gray-400" />
+              <span className="font-medium">{TOOL_LABELS[invocation.toolName] ?? invocation.toolName}</span>
+              <span className="truncate text-gray-400">
+                {describeToolCall(invocation.toolName, invocation.args ?? {}, result)}
+              </span>
+              {invocation.state !== 'result' ? (
+                <Loader2 className="w-3 h-3 ml-auto animate-spin text-blue-500" />
+              ) : failed ? (
+                <span className="ml-auto text-red-500">failed</span>
+              ) : null}
+            </summary>
+            <div className="border-t border-gray-100 px-2 py-1.5 space-y-1.5">
+              <pre className="whitespace-pre-wrap break-words text-[11px] text-gray-500">
+                {JSON.stringify(invocation.args, null, 2)}
+              </pre>
+              {invocation.state === 'result' && (
+                <pre className="whitespace-pre-wrap break-words text-[11px] text-gray-700 max-h-60 overflow-y-auto">
+                  {JSON.stringify(invocation.result, null, 2)}
+                </pre>
+              )}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * A saved message's place in the chat's tree, from the messages endpoint.
+ */
+interface MessageBranch {
+  parentMessageId: string | null;
+  branch: { index: number; count: number; siblingIds: string[] };
+}
+
+/**
+ * "‹ 2/3 ›" arrows for a message with sibling branches.
+ */
+function BranchSwitcher({
+  branch,
+  disabled,
+  onSwitch,
+}: {
+  branch: MessageBranch['branch'];
+  disabled: boolean;
+  onSwitch: (messageId: string) => void;
+}) {
+  if (branch.count < 2) return null;
+  const { index, count, siblingIds } = branch;
+
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-gray-500">
+      <button
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+        title="Previous branch"
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span className="tabular-nums">{index + 1}/{count}</span>
+      <button
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        disabled={disabled || index === count - 1}
+        className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent"
+        title="Next branch"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
+
+function SourceBadge({ source, onSelect }: { source: Citation; onSelect?: (ref: number) => void }) {
+  const relevancePercent = Math.round(source.similarity * 100);
   const relevanceColor = relevancePercent >= 80 
     ? 'bg-green-100 text-green-700 border-green-200' 
     : relevancePercent >= 60 
@@ -46,23 +252,38 @@ function SourceBadge({ source }: { source: ParsedSource }) {
     : 'bg-gray-100 text-gray-600 border-gray-200';
   
   return (
-    <div className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-full border text-xs ${relevanceColor}`}>
-      <FileText className="w-3 h-3" />
-      <span className="font-medium">{source.name}</span>
+    <div
+      className={`inline-flex items-center gap-1.5 px-2 py-1 rounded-full border text-xs ${relevanceColor} ${
+        onSelect ? 'cursor-pointer hover:opacity-80' : ''
+      }`}
+      title={source.quote ? `"${source.quote}"` : source.section}
+      onClick={onSelect && (() => onSelect(source.ref))}
+    >
+      {source.ref > 0 ? <span className="font-semibold">[{source.ref}]</span> : <FileText className="w-3 h-3" />}
+      <span className="font-medium">{source.source}</span>
+      {source.section && <span className="opacity-70 truncate max-w-[12rem]">{source.section}</span>}
       <span className="opacity-70">{relevancePercent}%</span>
     </div>
   );
 }
 
-function MessageContent({ message }: { message: { role: string; content: string } }) {
-  const { mainContent, sources } = useMemo(
-    () => parseSourcesFromContent(message.content),
+export function MessageContent({ message }: { message: Message }) {
+  // Older replies end with a ---sources--- block written by the model
+  const mainContent = useMemo(
+    () => linkCitationMarkers(message.content.replace(LEGACY_SOURCES_BLOCK, '').trim()),
     [message.content]
   );
+  const sources = useMemo(() => messageSources(message), [message]);
+  const [activeRef, setActiveRef] = useState<number | null>(null);
+  const activeCitation = sources.find((source) => source.ref === activeRef);
+  const toggleCitation = useCallback(
+    (ref: number) => setActiveRef((current) => (current === ref ? null : ref)),
+    []
+  );
 
   if (message.role === 'user') {
     return (
-      <div className="max-w-[85%] rounded-lg p-3 text-sm bg-blue-600 text-white">
+      <div className="rounded-lg p-3 text-sm bg-blue-600 text-white">
         <span className="whitespace-pre-wrap">{message.content}</span>
       </div>
     );
@@ -70,11 +291,30 @@ function MessageContent({ message }: { message: { role: string; content: string
 
   // Assistant message
   return (
-    <div className="max-w-[85%] space-y-2">
+    <div className="space-y-2">
+      <ToolCalls parts={message.parts} />
+
       <div className="rounded-lg p-3 text-sm bg-gray-100 text-gray-800">
         {mainContent ? (
           <div className="prose prose-sm max-w-none prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0.5 prose-headings:my-2 prose-pre:bg-gray-800 prose-pre:text-gray-100 prose-code:text-blue-600 prose-code:bg-blue-50 prose-code:px-1 prose-code:rounded">
-            <ReactMarkdown remarkPlugins={[remarkGfm]}>
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              components={{
+                a: ({ href, children }) => {
+                  const ref = href?.startsWith('#cite-') ? parseInt(href.slice(6), 10) : NaN;
+                  return Number.isNaN(ref) ? (
+                    <a href={href}>{children}</a>
+                  ) : (
+                    <CitationChip
+                      refNumber={ref}
+                      citation={sources.find((source) => source.ref === ref)}
+                      active={ref === activeRef}
+                      onSelect={toggleCitation}
+                    />
+                  );
+                },
+              }}
+            >
               {mainContent}
             </ReactMarkdown>
           </div>
@@ -83,10 +323,18 @@ function MessageContent({ message }: { message: { role: string; content: string
         )}
       </div>
       
+      {activeCitation && (
+        <CitationPanel citation={activeCitation} onClose={() => setActiveRef(null)} />
+      )}
+
       {sources.length > 0 && (
         <div className="flex flex-wrap gap-1.5 px-1">
           {sources.map((source, idx) => (
-            <SourceBadge key={idx} source={source} />
+            <SourceBadge
+              key={source.chunkId || idx}
+              source={source}
+              onSelect={source.ref > 0 && source.content ? toggleCitation : undefined}
+            />
           ))}
         </div>
       )}
@@ -97,26 +345,58 @@ function MessageContent({ message }: { message: { role: string; content: string
 interface ChatInterfaceProps {
   chatId?: string | null;
   onChatCreated?: (chatId: string, title: string) => void;
+  /** Called after each reply, which may have retitled the chat */
+  onChatUpdated?: (chatId: string) => void;
 }
 
 export function ChatInterface({ 
   chatId, 
   onChatCreated,
+  onChatUpdated,
 }: ChatInterfaceProps) {
   const currentChatIdRef = useRef<string | null>(chatId || null);
-  const lastSavedMessageCountRef = useRef<number>(0);
+  // A chat created by this component already shows its messages
+  const createdChatIdRef = useRef<string | null>(null);
   
-  const { messages, input, handleInputChange, handleSubmit: originalHandleSubmit, isLoading, setMessages } = useChat({
+  // Where each saved message sits in the chat's tree; streamed messages get
+  // theirs when the chat is reloaded after the reply
+  const [branches, setBranches] = useState<Record<string, MessageBranch>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [savedNotes, setSavedNotes] = useState<Record<string, 'saving' | 'saved' | 'error'>>({});
+
+  const { messages, input, handleInputChange, handleSubmit: originalHandleSubmit, isLoading, setMessages, data, append, reload } = useChat({
     api: '/api/chat',
     id: chatId || undefined,
-    onFinish: async (message) => {
-      // Save assistant message to database
+    // The server loads the history and saves both messages; send only the new one
+    experimental_prepareRequestBody: ({ messages, requestBody }) => ({
+      ...requestBody,
+      message: messages[messages.length - 1],
+    }),
+    onFinish: () => {
+      // The server saves the reply with its citations; refresh referenced files
+      window.dispatchEvent(new Event('chatSourcesUpdated'));
+      // ...and titles the chat after its first reply
       if (currentChatIdRef.current) {
-        await saveMessage(currentChatIdRef.current, 'assistant', message.content);
+        onChatUpdated?.(currentChatIdRef.current);
+        // Pick up the saved ids and branches of the new messages
+        loadMessages(currentChatIdRef.current);
       }
     },
   });
   
+  // How much of the chat the model saw verbatim on the last turn
+  const historyReport = useMemo(
+    () =>
+      [...(data ?? [])]
+        .reverse()
+        .find(
+          (item): item is { [key: string]: JSONValue } =>
+            !!item && typeof item === 'object' && !Array.isArray(item) && item.type === 'history'
+        ),
+    [data]
+  );
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
 
@@ -130,13 +410,30 @@ export function ChatInterface({
       const res = await fetch(`/api/chats/${id}/messages`);
       if (res.ok) {
         const data = await res.json();
-        const formattedMessages: Message[] = data.map((m: { id: string; role: string; content: string }) => ({
+        const saved: Array<{
+          id: string;
+          role: string;
+          content: string;
+          sources: JSONValue;
+          parts: Message['parts'] | null;
+          toolInvocations: ToolInvocation[] | null;
+        } & MessageBranch> = data;
+        const formattedMessages: Message[] = saved.map((m) => ({
           id: m.id,
           role: m.role as 'user' | 'assistant',
           content: m.content,
+          // Older replies only stored their tool calls
+          parts:
+            m.parts ??
+            m.toolInvocations?.map((toolInvocation) => ({ type: 'tool-invocation' as const, toolInvocation })),
+          annotations: m.sources ? [{ type: 'sources', sources: m.sources }] : undefined,
         }));
         setMessages(formattedMessages);
-        lastSavedMessageCountRef.current = formattedMessages.length;
+        setBranches(
+          Object.fromEntries(
+            saved.map((m) => [m.id, { parentMessageId: m.parentMessageId, branch: m.branch }])
+          )
+        );
       }
     } catch (error) {
       console.error('Failed to load messages:', error);
@@ -147,43 +444,21 @@ export function ChatInterface({
   useEffect(() => {
     if (chatId && typeof chatId === 'string' && chatId.trim() !== '') {
       currentChatIdRef.current = chatId;
-      loadMessages(chatId);
+      if (chatId !== createdChatIdRef.current) {
+        loadMessages(chatId);
+      }
     } else {
       currentChatIdRef.current = null;
       setMessages([]);
-      lastSavedMessageCountRef.current = 0;
+      setBranches({});
     }
+    setEditingId(null);
   }, [chatId, loadMessages, setMessages]);
 
-  const saveMessage = async (chatId: string, role: string, content: string) => {
-    if (!chatId || typeof chatId !== 'string' || chatId.trim() === '') {
-      console.error('Invalid chatId for saving message');
-      return;
-    }
-    
-    // Extract sources from content if this is an assistant message
-    let sources = null;
-    if (role === 'assistant') {
-      const { sources: extractedSources } = parseSourcesFromContent(content);
-      if (extractedSources.length > 0) {
-        sources = extractedSources.map(s => ({ name: s.name, relevance: s.relevance }));
-      }
-    }
-    
-    try {
-      await fetch(`/api/chats/${chatId}/messages`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ role, content, sources }),
-      });
-    } catch (error) {
-      console.error('Failed to save message:', error);
-    }
-  };
-
   const createChat = async (firstMessage: string): Promise<string | null> => {
     try {
-      // Generate a title from the first message (first 50 chars)
+      // Placeholder title from the first message (first 50 chars); the server
+      // replaces it with a generated one after the first reply
       const title = firstMessage.length > 50 
         ? firstMessage.substring(0, 47) + '...' 
         : firstMessage;
@@ -197,6 +472,7 @@ export function ChatInterface({
       if (res.ok) {
         const chat = await res.json();
         currentChatIdRef.current = chat.id;
+        createdChatIdRef.current = chat.id;
         if (onChatCreated) {
           onChatCreated(chat.id, title);
         }
@@ -223,13 +499,67 @@ export function ChatInterface({
       }
     }
 
-    // Save user message to database
-    if (currentChatIdRef.current) {
-      await saveMessage(currentChatIdRef.current, 'user', userMessage);
+    // Now call the original submit handler; the server saves both messages to this chat
+    originalHandleSubmit(e, { body: { chatId: currentChatIdRef.current } });
+  };
+
+  // Send an edited question as a sibling of the original, starting a new branch
+  const submitEdit = (message: Message) => {
+    const content = draft.trim();
+    const index = messages.findIndex((m) => m.id === message.id);
+    const saved = branches[message.id];
+    setEditingId(null);
+    if (!content || content === message.content || index < 0 || !saved || isLoading) return;
+
+    setMessages(messages.slice(0, index));
+    append(
+      { role: 'user', content },
+      { body: { chatId: currentChatIdRef.current, parentMessageId: saved.parentMessageId } }
+    );
+  };
+
+  // Answer the same question again; the new reply becomes a sibling branch
+  const regenerate = (message: Message) => {
+    const index = messages.findIndex((m) => m.id === message.id);
+    if (index < 0 || isLoading) return;
+
+    setMessages(messages.slice(0, index));
+    reload({ body: { chatId: currentChatIdRef.current, regenerateMessageId: message.id } });
+  };
+
+  // Add an answer to the knowledge base as a note linking back to this chat
+  const saveAsNote = async (messageId: string) => {
+    const id = currentChatIdRef.current;
+    if (!id || savedNotes[messageId] === 'saving') return;
+
+    setSavedNotes((prev) => ({ ...prev, [messageId]: 'saving' }));
+    try {
+      const res = await fetch(`/api/chats/${id}/messages/${messageId}/note`, { method: 'POST' });
+      if (!res.ok) throw new Error('Failed to save note');
+      setSavedNotes((prev) => ({ ...prev, [messageId]: 'saved' }));
+      window.dispatchEvent(new CustomEvent('embeddingUploaded'));
+    } catch (error) {
+      console.error('Failed to save answer as note:', error);
+      setSavedNotes((prev) => ({ ...prev, [messageId]: 'error' }));
     }
+  };
+
+  const switchBranch = async (messageId: string) => {
+    const id = currentChatIdRef.current;
+    if (!id || isLoading) return;
 
-    // Now call the original submit handler
-    originalHandleSubmit(e);
+    try {
+      const res = await fetch(`/api/chats/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ activeMessageId: messageId }),
+      });
+      if (!res.ok) throw new Error('Failed to switch branch');
+      await loadMessages(id);
+      window.dispatchEvent(new Event('chatSourcesUpdated'));
+    } catch (error) {
+      console.error('Failed to switch branch:', error);
+    }
   };
 
   useEffect(() => {
@@ -252,6 +582,26 @@ export function ChatInterface({
           </div>
         )}
         
+        {chatId && messages.length > 0 && (
+          <div className="flex flex-wrap justify-end items-center gap-2 text-xs text-gray-400">
+            <Download className="w-3.5 h-3.5" />
+            Export
+            <a href={`/api/chats/${chatId}/export?format=md`} className="hover:text-blue-600 hover:underline">
+              Markdown
+            </a>
+            <a href={`/api/chats/${chatId}/export?format=json`} className="hover:text-blue-600 hover:underline">
+              JSON
+            </a>
+            <SharePanel chatId={chatId} citations={messages.flatMap(messageSources)} />
+          </div>
+        )}
+
+        {historyReport && Number(historyReport.summarizedMessages) > 0 && (
+          <p className="text-center text-xs text-gray-400">
+            {String(historyReport.summarizedMessages)} earlier messages are summarized for the assistant
+          </p>
+        )}
+
         {messages.map((m) => (
           <div
             key={m.id}
@@ -264,7 +614,91 @@ export function ChatInterface({
                 <Bot className="w-5 h-5 text-blue-600" />
               </div>
             )}
-            <MessageContent message={m} />
+            <div className={`max-w-[85%] flex flex-col gap-1 ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+              {editingId === m.id ? (
+                <div className="w-full min-w-[16rem] space-y-1">
+                  <textarea
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        submitEdit(m);
+                      }
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    rows={3}
+                    className="w-full border rounded-lg px-3 py-2 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="flex justify-end gap-2 text-xs">
+                    <button onClick={() => setEditingId(null)} className="px-2 py-1 rounded text-gray-600 hover:bg-gray-100">
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => submitEdit(m)}
+                      disabled={!draft.trim()}
+                      className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Send
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <MessageContent message={m} />
+              )}
+              {branches[m.id] && editingId !== m.id && (
+                <div className="flex items-center gap-1 text-gray-400">
+                  <BranchSwitcher branch={branches[m.id].branch} disabled={isLoading} onSwitch={switchBranch} />
+                  {m.role === 'user' ? (
+                    <button
+                      onClick={() => {
+                        setEditingId(m.id);
+                        setDraft(m.content);
+                      }}
+                      disabled={isLoading}
+                      className="p-0.5 rounded hover:bg-gray-100 hover:text-gray-600 disabled:opacity-30"
+                      title="Edit message"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => regenerate(m)}
+                        disabled={isLoading}
+                        className="p-0.5 rounded hover:bg-gray-100 hover:text-gray-600 disabled:opacity-30"
+                        title="Regenerate reply"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => saveAsNote(m.id)}
+                        disabled={savedNotes[m.id] === 'saving'}
+                        className={`p-0.5 rounded hover:bg-gray-100 hover:text-gray-600 ${
+                          savedNotes[m.id] === 'error' ? 'text-red-500' : ''
+                        }`}
+                        title={
+                          savedNotes[m.id] === 'saved'
+                            ? 'Saved as note'
+                            : savedNotes[m.id] === 'error'
+                            ? 'Saving failed, try again'
+                            : 'Save answer as note'
+                        }
+                      >
+                        {savedNotes[m.id] === 'saving' ? (
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                        ) : savedNotes[m.id] === 'saved' ? (
+                          <Check className="w-3.5 h-3.5 text-green-600" />
+                        ) : (
+                          <FilePlus className="w-3.5 h-3.5" />
+                        )}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
             {m.role === 'user' && (
               <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center flex-shrink-0">
                 <User className="w-5 h-5 text-gray-600" />
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect, forwardRef, useImperativeHandle, useCallback } from 'react';
-import { MessageSquare, Plus, Trash2, Loader2 } from 'lucide-react';
+import { useState, useEffect, forwardRef, useImperativeHandle, useCallback, useRef } from 'react';
+import { MessageSquare, Plus, Trash2, Loader2, Pencil, Search, X, Upload } from 'lucide-react';
 
 interface Chat {
   id: string;
@@ -10,6 +10,20 @@ interface Chat {
   updatedAt: string;
 }
 
+interface ChatSearchResult {
+  chatId: string;
+  title: string;
+  updatedAt: string;
+  matches: Array<{
+    messageId: string;
+    role: 'user' | 'assistant' | 'system';
+    // Escaped HTML with matched words in <mark>
+    snippet: string;
+  }>;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
 interface ChatListProps {
   selectedChatId: string | null;
   onSelectChat: (chatId: string) => void;
@@ -28,6 +42,14 @@ export const ChatList = forwardRef<ChatListRef, ChatListProps>(function ChatList
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const fetchChats = useCallback(async () => {
     try {
@@ -53,6 +75,38 @@ export const ChatList = forwardRef<ChatListRef, ChatListProps>(function ChatList
     fetchChats();
   }, [fetchChats]);
 
+  // Search chat history once typing pauses; an empty box shows all chats again
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults(null);
+      setSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/chats/search?q=${encodeURIComponent(q)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error('Failed to search chats');
+        setResults(await res.json());
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Search error:', err);
+        setResults([]);
+      }
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
   const handleDelete = async (chatId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (deletingId) return;
@@ -80,6 +134,64 @@ export const ChatList = forwardRef<ChatListRef, ChatListProps>(function ChatList
     }
   };
 
+  const startRename = (chat: Chat, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingId(chat.id);
+    setDraftTitle(chat.title);
+  };
+
+  const handleRename = async (chatId: string) => {
+    const title = draftTitle.trim();
+    setEditingId(null);
+    const chat = chats.find(c => c.id === chatId);
+    if (!title || !chat || title === chat.title) return;
+
+    // Show the new title right away; restore it if saving fails
+    setChats(prev => prev.map(c => (c.id === chatId ? { ...c, title } : c)));
+    try {
+      const res = await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+
+      if (!res.ok) throw new Error('Failed to rename chat');
+    } catch (err) {
+      console.error('Rename error:', err);
+      setChats(prev => prev.map(c => (c.id === chatId ? { ...c, title: chat.title } : c)));
+    }
+  };
+
+  // Import a ChatGPT conversations.json or JSONL transcripts
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const asNotes = confirm('Also add the imported conversations to your notes, so the assistant can search them?');
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('asNotes', String(asNotes));
+
+    setImporting(true);
+    setImportMessage(null);
+    try {
+      const res = await fetch('/api/chats/import', { method: 'POST', body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to import chats');
+
+      setImportMessage(data.message);
+      await fetchChats();
+      if (asNotes) {
+        window.dispatchEvent(new CustomEvent('embeddingUploaded'));
+      }
+    } catch (err) {
+      setImportMessage(err instanceof Error ? err.message : 'Failed to import chats');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
     const now = new Date();
@@ -96,65 +208,178 @@ export const ChatList = forwardRef<ChatListRef, ChatListProps>(function ChatList
   return (
     <div className="flex flex-col h-full">
       <div className="p-3 border-b">
-        <button
-          onClick={onNewChat}
-          className="w-full flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
-        >
-          <Plus className="w-4 h-4" />
-          New Chat
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={onNewChat}
+            className="flex-1 flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Chat
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+            className="px-2.5 py-2 text-gray-600 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+            title="Import chats (ChatGPT conversations.json or JSONL)"
+          >
+            {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.jsonl,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+        {importMessage && (
+          <p className="mt-2 text-xs text-gray-500">{importMessage}</p>
+        )}
+        <div className="relative mt-2">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setQuery('');
+            }}
+            placeholder="Search chats..."
+            className="w-full pl-8 pr-7 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          {query && (
+            <button
+              onClick={() => setQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              title="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-2 space-y-1">
-        {loading && (
-          <div className="flex items-center justify-center py-8">
-            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
-          </div>
-        )}
+      {query.trim() ? (
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {searching && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          )}
 
-        {error && (
-          <div className="text-sm text-red-500 text-center py-4">
-            {error}
-          </div>
-        )}
+          {!searching && results?.length === 0 && (
+            <div className="text-sm text-gray-400 text-center py-8">
+              No matching chats
+            </div>
+          )}
 
-        {!loading && !error && chats.length === 0 && (
-          <div className="text-sm text-gray-400 text-center py-8">
-            No chats yet
-          </div>
-        )}
+          {!searching && results?.map((result) => (
+            <div
+              key={result.chatId}
+              onClick={() => onSelectChat(result.chatId)}
+              className={`w-full px-3 py-2 text-left rounded-lg transition-colors cursor-pointer ${
+                selectedChatId === result.chatId
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'hover:bg-gray-100 text-gray-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                <div className="text-sm font-medium truncate flex-1">{result.title}</div>
+                <div className="text-xs text-gray-400 flex-shrink-0">{formatDate(result.updatedAt)}</div>
+              </div>
+              {result.matches.map((match) => (
+                <div
+                  key={match.messageId}
+                  className="mt-1 ml-6 text-xs text-gray-500 line-clamp-2 [&_mark]:bg-yellow-200 [&_mark]:text-gray-800"
+                >
+                  <span className="font-medium">{match.role === 'user' ? 'You' : 'Assistant'}: </span>
+                  {/* Snippets are escaped server-side; only <mark> tags are added */}
+                  <span dangerouslySetInnerHTML={{ __html: match.snippet }} />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
 
-        {chats.map((chat) => (
-          <div
-            key={chat.id}
-            onClick={() => onSelectChat(chat.id)}
-            className={`w-full group flex items-center gap-2 px-3 py-2 text-left rounded-lg transition-colors cursor-pointer ${
-              selectedChatId === chat.id
-                ? 'bg-blue-100 text-blue-700'
-                : 'hover:bg-gray-100 text-gray-700'
-            }`}
-          >
-            <MessageSquare className="w-4 h-4 flex-shrink-0" />
-            <div className="flex-1 min-w-0">
-              <div className="text-sm font-medium truncate">{chat.title}</div>
-              <div className="text-xs text-gray-400">{formatDate(chat.updatedAt)}</div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {loading && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
             </div>
-            <button
-              onClick={(e) => handleDelete(chat.id, e)}
-              className={`p-1 rounded hover:bg-red-100 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity ${
-                deletingId === chat.id ? 'opacity-100' : ''
+          )}
+
+          {error && (
+            <div className="text-sm text-red-500 text-center py-4">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && chats.length === 0 && (
+            <div className="text-sm text-gray-400 text-center py-8">
+              No chats yet
+            </div>
+          )}
+
+          {chats.map((chat) => (
+            <div
+              key={chat.id}
+              onClick={() => onSelectChat(chat.id)}
+              className={`w-full group flex items-center gap-2 px-3 py-2 text-left rounded-lg transition-colors cursor-pointer ${
+                selectedChatId === chat.id
+                  ? 'bg-blue-100 text-blue-700'
+                  : 'hover:bg-gray-100 text-gray-700'
               }`}
-              disabled={deletingId === chat.id}
             >
-              {deletingId === chat.id ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
-                <Trash2 className="w-4 h-4" />
-              )}
-            </button>
-          </div>
-        ))}
-      </div>
+              <MessageSquare className="w-4 h-4 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                {editingId === chat.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    maxLength={200}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onBlur={() => handleRename(chat.id)}
+                    onKeyDown={(e) => {
+                      // Saving happens on blur, so Enter and clicking away save once
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full text-sm font-medium bg-white border border-blue-300 rounded px-1 py-0.5 text-gray-800 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <div className="text-sm font-medium truncate" onDoubleClick={(e) => startRename(chat, e)}>
+                    {chat.title}
+                  </div>
+                )}
+                <div className="text-xs text-gray-400">{formatDate(chat.updatedAt)}</div>
+              </div>
+              <button
+                onClick={(e) => startRename(chat, e)}
+                className="p-1 rounded hover:bg-blue-100 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Rename chat"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={(e) => handleDelete(chat.id, e)}
+                className={`p-1 rounded hover:bg-red-100 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity ${
+                  deletingId === chat.id ? 'opacity-100' : ''
+                }`}
+                disabled={deletingId === chat.id}
+              >
+                {deletingId === chat.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4" />
+                )}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,213 @@
+'use client';
+
+import { Share2, Copy, Check, Trash2, Loader2, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import type { Citation } from '@/lib/ai/citations';
+
+interface ShareLink {
+  id: string;
+  token: string;
+  includedChunkIds: string[];
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/shared/${token}`;
+}
+
+interface SharePanelProps {
+  chatId: string;
+  /** Citations on the branch being shared; their text is hidden unless ticked */
+  citations: Citation[];
+}
+
+/**
+ * Create and revoke read-only links to a chat. A link shows the branch as it
+ * is now, with source names; the text of each cited chunk is only shown if
+ * the owner includes it.
+ */
+export function SharePanel({ chatId, citations }: SharePanelProps) {
+  const [open, setOpen] = useState(false);
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [included, setIncluded] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // One entry per cited chunk; older citations without a chunk id have no text
+  const chunks = citations.filter(
+    (citation, index) =>
+      citation.chunkId && citations.findIndex((other) => other.chunkId === citation.chunkId) === index
+  );
+
+  const loadShares = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/chats/${chatId}/shares`);
+      if (res.ok) {
+        setShares(await res.json());
+      }
+    } catch (error) {
+      console.error('Failed to load share links:', error);
+    }
+  }, [chatId]);
+
+  useEffect(() => {
+    if (open) {
+      loadShares();
+    }
+  }, [open, loadShares]);
+
+  const copyLink = async (share: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId((current) => (current === share.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  const createShare = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/chats/${chatId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInDays, includedChunkIds: included }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to create link');
+      setShares((prev) => [data, ...prev]);
+      setIncluded([]);
+      await copyLink(data);
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeShare = async (shareId: string) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access.')) return;
+
+    try {
+      const res = await fetch(`/api/chats/${chatId}/shares/${shareId}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to revoke link');
+      setShares((prev) => prev.filter((share) => share.id !== shareId));
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} className="flex items-center gap-1 hover:text-blue-600">
+        <Share2 className="w-3.5 h-3.5" />
+        Share
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full rounded-lg border border-gray-200 bg-white p-3 text-xs text-gray-600 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-800">Share a read-only link</span>
+        <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-600" title="Close">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <p className="text-gray-500">
+        The link shows this branch as it is now. Sources are listed by name; tick a source to share its text too.
+      </p>
+
+      {chunks.length > 0 && (
+        <div className="space-y-1 max-h-32 overflow-y-auto">
+          {chunks.map((chunk) => (
+            <label key={chunk.chunkId} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={included.includes(chunk.chunkId)}
+                onChange={(e) =>
+                  setIncluded((prev) =>
+                    e.target.checked ? [...prev, chunk.chunkId] : prev.filter((id) => id !== chunk.chunkId)
+                  )
+                }
+              />
+              <span className="truncate">
+                {chunk.source}
+                {chunk.section && <span className="text-gray-400"> › {chunk.section}</span>}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1">
+          Expires
+          <select
+            value={expiresInDays ?? ''}
+            onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            className="border rounded px-1 py-0.5 text-gray-800"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.label} value={option.days ?? ''}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={createShare}
+          disabled={creating}
+          className="ml-auto flex items-center gap-1 px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {creating && <Loader2 className="w-3 h-3 animate-spin" />}
+          Create link
+        </button>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      {shares.length > 0 && (
+        <ul className="border-t pt-2 space-y-1">
+          {shares.map((share) => (
+            <li key={share.id} className="flex items-center gap-2">
+              <span className="flex-1 truncate font-mono text-gray-500">/shared/{share.token}</span>
+              <span className="text-gray-400 whitespace-nowrap">
+                {share.expiresAt ? `until ${new Date(share.expiresAt).toLocaleDateString()}` : 'no expiry'}
+                {share.includedChunkIds.length > 0 && ` · ${share.includedChunkIds.length} sources shared`}
+              </span>
+              <button onClick={() => copyLink(share)} className="p-0.5 rounded hover:bg-gray-100" title="Copy link">
+                {copiedId === share.id ? (
+                  <Check className="w-3.5 h-3.5 text-green-600" />
+                ) : (
+                  <Copy className="w-3.5 h-3.5" />
+                )}
+              </button>
+              <button
+                onClick={() => revokeShare(share.id)}
+                className="p-0.5 rounded hover:bg-gray-100 hover:text-red-500"
+                title="Revoke link"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
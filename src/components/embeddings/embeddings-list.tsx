@@ -3,13 +3,24 @@
 import { useEffect, useState } from 'react';
 import { FileText, Trash2, Loader2, AlertCircle } from 'lucide-react';
 
-interface EmbeddedFile {
-  source: string;
-  fileName: string;
+interface EmbeddedDocument {
+  id: string;
+  title: string;
+  path: string;
+  mimeType: string;
+  size: number;
   chunkCount: number;
-  firstUploaded: string;
-  lastUpdated: string;
-  embeddingIds: string[];
+  sourceType: 'upload' | 'ingest' | 'chat';
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ReferencedChunk {
+  id: string;
+  chunkIndex: number | null;
+  content: string;
+  isReferenced: boolean;
+  quotes: string[];
 }
 
 interface EmbeddingsListProps {
@@ -17,22 +28,23 @@ interface EmbeddingsListProps {
 }
 
 export function EmbeddingsList({ selectedChatId }: EmbeddingsListProps = {}) {
-  const [files, setFiles] = useState<EmbeddedFile[]>([]);
+  const [files, setFiles] = useState<EmbeddedDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
-  const [referencedFiles, setReferencedFiles] = useState<Set<string>>(new Set());
+  const [referencedDocumentIds, setReferencedDocumentIds] = useState<Set<string>>(new Set());
+  const [citedChunks, setCitedChunks] = useState<Map<string, ReferencedChunk[]>>(new Map());
 
   const fetchFiles = async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch('/api/embeddings');
+      const response = await fetch('/api/documents');
       if (!response.ok) {
         throw new Error('Failed to fetch files');
       }
       const data = await response.json();
-      setFiles(data.files || []);
+      setFiles(data.documents || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load files');
     } finally {
@@ -46,7 +58,14 @@ export function EmbeddingsList({ selectedChatId }: EmbeddingsListProps = {}) {
       const response = await fetch(`/api/chats/${chatId}/referenced-files`);
       if (response.ok) {
         const data = await response.json();
-        setReferencedFiles(new Set(data.files || []));
+        setReferencedDocumentIds(new Set(data.documentIds || []));
+        // Keep only the chunks cited by id, per document
+        setCitedChunks(new Map(
+          (data.chunks || []).map((doc: { documentId: string; chunks: ReferencedChunk[] }) => [
+            doc.documentId,
+            doc.chunks.filter((chunk) => chunk.isReferenced),
+          ])
+        ));
       }
     } catch (err) {
       // Silently fail - referenced files highlighting is optional
@@ -63,26 +82,35 @@ export function EmbeddingsList({ selectedChatId }: EmbeddingsListProps = {}) {
     };
     window.addEventListener('embeddingUploaded', handleUpload);
     
-    // Fetch referenced files when chat changes
+    // Fetch referenced files when chat changes, and again after each reply
+    const handleSourcesUpdated = () => {
+      if (selectedChatId) {
+        fetchReferencedFiles(selectedChatId);
+      }
+    };
+    window.addEventListener('chatSourcesUpdated', handleSourcesUpdated);
+
     if (selectedChatId) {
       fetchReferencedFiles(selectedChatId);
     } else {
-      setReferencedFiles(new Set());
+      setReferencedDocumentIds(new Set());
+      setCitedChunks(new Map());
     }
     
     return () => {
       window.removeEventListener('embeddingUploaded', handleUpload);
+      window.removeEventListener('chatSourcesUpdated', handleSourcesUpdated);
     };
   }, [selectedChatId]);
 
-  const handleDelete = async (source: string) => {
-    if (!confirm(`Are you sure you want to delete all chunks for "${source}"? This cannot be undone.`)) {
+  const handleDelete = async (file: EmbeddedDocument) => {
+    if (!confirm(`Are you sure you want to delete all chunks for "${file.path}"? This cannot be undone.`)) {
       return;
     }
 
     try {
-      setDeleting(source);
-      const response = await fetch(`/api/embeddings?source=${encodeURIComponent(source)}`, {
+      setDeleting(file.id);
+      const response = await fetch(`/api/documents/${file.id}`, {
         method: 'DELETE',
       });
 
@@ -157,16 +185,12 @@ export function EmbeddingsList({ selectedChatId }: EmbeddingsListProps = {}) {
         ) : (
           <div className="overflow-y-auto space-y-4 pr-2 h-full">
             {files.map((file) => {
-              const isReferenced = referencedFiles.size > 0 && (
-                referencedFiles.has(file.fileName) || 
-                referencedFiles.has(file.source) ||
-                referencedFiles.has(file.fileName.replace('.md', '')) ||
-                referencedFiles.has(file.source.replace('.md', ''))
-              );
+              const isReferenced = referencedDocumentIds.has(file.id);
+              const cited = citedChunks.get(file.id) ?? [];
               
               return (
                 <div
-                  key={file.source}
+                  key={file.id}
                   className={`group relative p-5 rounded-lg border transition-all ${
                     isReferenced
                       ? 'bg-blue-50/50 border-blue-200/50 hover:border-blue-300 hover:bg-blue-50'
@@ -180,19 +204,49 @@ export function EmbeddingsList({ selectedChatId }: EmbeddingsListProps = {}) {
                         <div className="flex-1 min-w-0 pr-2">
                           <p 
                             className={`text-base font-medium line-clamp-2 ${isReferenced ? 'text-blue-900' : 'text-gray-900'}`} 
-                            title={file.fileName || file.source}
+                            title={file.path}
                           >
-                            {file.fileName || file.source}
+                            {file.title}
                           </p>
+                          {file.sourceType === 'chat' && (
+                            <span className="inline-block mt-1 px-1.5 py-0.5 text-[10px] font-medium rounded bg-purple-50 text-purple-600 border border-purple-100">
+                              Saved from chat
+                            </span>
+                          )}
+                          {file.path !== file.title && (
+                            <p className="text-xs text-gray-400 truncate mt-1" title={file.path}>
+                              {file.path}
+                            </p>
+                          )}
                           <div className="flex items-center gap-2.5 mt-3 whitespace-nowrap">
                             <span className="text-xs text-gray-500">
                               {file.chunkCount} chunk{file.chunkCount !== 1 ? 's' : ''}
                             </span>
                             <span className="text-xs text-gray-400">•</span>
                             <span className="text-xs text-gray-500">
-                              {formatDate(file.lastUpdated)}
+                              {formatDate(file.updatedAt)}
                             </span>
                           </div>
+                          {cited.length > 0 && (
+                            <div className="mt-3 space-y-2">
+                              {cited.map((chunk) => (
+                                <div key={chunk.id} className="text-xs text-gray-600 border-l-2 border-blue-300 pl-2">
+                                  <span className="font-medium text-blue-700">
+                                    Chunk {chunk.chunkIndex !== null ? chunk.chunkIndex + 1 : ''}
+                                  </span>
+                                  {(chunk.quotes.length > 0 ? chunk.quotes : [chunk.content]).map((quote, idx) => (
+                                    <p key={idx} className="line-clamp-3 mt-1">
+                                      {chunk.quotes.length > 0 ? (
+                                        <mark className="bg-yellow-100 text-gray-800">{quote}</mark>
+                                      ) : (
+                                        quote
+                                      )}
+                                    </p>
+                                  ))}
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                         <div className="flex items-start gap-2 flex-shrink-0">
                           {isReferenced && (
@@ -204,12 +258,12 @@ export function EmbeddingsList({ selectedChatId }: EmbeddingsListProps = {}) {
                             </span>
                           )}
                           <button
-                            onClick={() => handleDelete(file.source)}
-                            disabled={deleting === file.source}
+                            onClick={() => handleDelete(file)}
+                            disabled={deleting === file.id}
                             className="opacity-0 group-hover:opacity-100 p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                            title={`Delete ${file.fileName || file.source}`}
+                            title={`Delete ${file.path}`}
                           >
-                            {deleting === file.source ? (
+                            {deleting === file.id ? (
                               <Loader2 className="w-4 h-4 animate-spin" />
                             ) : (
                               <Trash2 className="w-4 h-4" />
@@ -6,16 +6,27 @@ import { Upload, FileText, X, Check, AlertCircle } from 'lucide-react';
 interface UploadResult {
   success: boolean;
   fileName?: string;
-  chunksInserted?: number;
+  skipped?: boolean;
+  added?: number;
+  unchanged?: number;
+  removed?: number;
   message?: string;
   error?: string;
 }
 
+const CHUNKING_STRATEGIES = [
+  { value: 'markdown-section', label: 'Markdown sections' },
+  { value: 'sentence', label: 'Sentences' },
+  { value: 'fixed-token', label: 'Fixed token windows' },
+  { value: 'semantic-breakpoint', label: 'Semantic breakpoints' },
+];
+
 export function FileUpload() {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null);
   const [file, setFile] = useState<File | null>(null);
+  const [strategy, setStrategy] = useState(CHUNKING_STRATEGIES[0].value);
 
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault();
@@ -73,6 +84,7 @@ export function FileUpload() {
     try {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('strategy', strategy);
 
       const response = await fetch('/api/upload', {
         method: 'POST',
@@ -85,7 +97,10 @@ export function FileUpload() {
         setUploadResult({
           success: true,
           fileName: result.fileName,
-          chunksInserted: result.chunksInserted,
+          skipped: result.skipped,
+          added: result.added,
+          unchanged: result.unchanged,
+          removed: result.removed,
           message: result.message,
         });
         setFile(null); // Clear file after successful upload
@@ -166,6 +181,21 @@ export function FileUpload() {
                 </button>
               )}
             </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              Chunking
+              <select
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value)}
+                disabled={isUploading}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded bg-white text-sm text-gray-800"
+              >
+                {CHUNKING_STRATEGIES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
             <div className="flex items-center gap-2">
               {isUploading ? (
                 <div className="flex items-center gap-2 text-sm text-gray-600 flex-1">
@@ -201,10 +231,10 @@ export function FileUpload() {
                 <p className="text-sm font-medium text-green-800">
                   {uploadResult.message || 'File uploaded successfully!'}
                 </p>
-                {uploadResult.chunksInserted && (
+                {!uploadResult.skipped && uploadResult.added !== undefined && (
                   <p className="text-xs text-green-600 mt-1">
-                    Created {uploadResult.chunksInserted} embedding chunk
-                    {uploadResult.chunksInserted !== 1 ? 's' : ''}
+                    {uploadResult.added} added, {uploadResult.unchanged ?? 0} unchanged,{' '}
+                    {uploadResult.removed ?? 0} removed
                   </p>
                 )}
               </div>
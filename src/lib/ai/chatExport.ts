@@ -0,0 +1,211 @@
+import { chats } from "@/lib/db/schema";
+import { storedCitations, type Citation } from "@/lib/ai/citations";
+import { activeLeaf, pathTo, type ChatMessageRow, type MessagePart } from "@/lib/ai/chatHistory";
+import { fallbackTitle } from "@/lib/ai/chatTitles";
+
+type ChatRow = typeof chats.$inferSelect;
+
+export const CHAT_EXPORT_FORMATS = ["md", "json"] as const;
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+/**
+ * A chat as exported to JSON: every message of every branch, with its tool
+ * calls and citations as stored.
+ */
+export interface ChatExport {
+  format: "notewise-chat";
+  version: 1;
+  exportedAt: string;
+  chat: {
+    id: string;
+    title: string;
+    summary: string | null;
+    summaryThrough: Date | null;
+    activeMessageId: string | null;
+    createdAt: Date | null;
+    updatedAt: Date | null;
+  };
+  /** Messages in the order they were written; follow parentMessageId for branches */
+  messages: Array<{
+    id: string;
+    parentMessageId: string | null;
+    role: ChatMessageRow["role"];
+    content: string;
+    createdAt: Date | null;
+    parts: unknown;
+    toolInvocations: unknown;
+    sources: unknown;
+  }>;
+  /** Ids of the branch shown in the app, oldest first */
+  activePath: string[];
+}
+
+/**
+ * Names and arguments of a message's tool calls, in call order.
+ */
+function toolCalls(message: ChatMessageRow): Array<{ toolName: string; args: unknown }> {
+  if (Array.isArray(message.parts)) {
+    return (message.parts as MessagePart[]).flatMap((part) =>
+      part.type === "tool-invocation" ? [part.toolInvocation] : []
+    );
+  }
+  return Array.isArray(message.toolInvocations)
+    ? (message.toolInvocations as Array<{ toolName: string; args: unknown }>)
+    : [];
+}
+
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 16).replace("T", " ") : "";
+}
+
+/**
+ * One line per citation: marker number, note, section and quote. Notes can
+ * be written as [[wiki links]], which note apps resolve as backlinks.
+ */
+function citationLines(citations: Citation[], wikiLinks = false): string[] {
+  return citations.map((citation) => {
+    const note = wikiLinks ? `[[${citation.source}]]` : citation.source;
+    const location = citation.section ? `${note} › ${citation.section}` : note;
+    const quote = citation.quote ? ` — "${citation.quote.replace(/\s+/g, " ")}"` : "";
+    return `${citation.ref > 0 ? `[${citation.ref}]` : "-"} ${location}${quote}`;
+  });
+}
+
+/**
+ * The chat's active branch as Markdown: each message under a heading, with
+ * the tools the assistant used and the sources its answer cites.
+ *
+ * @param exportedAt - Export time shown under the title; null leaves it out,
+ *   so the same chat always gives the same text
+ */
+export function chatToMarkdown(
+  chat: ChatRow,
+  rows: ChatMessageRow[],
+  exportedAt: Date | null = new Date()
+): string {
+  const messages = pathTo(rows, activeLeaf(rows, chat.activeMessageId));
+  const lines = [
+    `# ${chat.title}`,
+    "",
+    exportedAt
+      ? `Exported ${formatDate(exportedAt)} UTC · ${messages.length} messages`
+      : `${formatDate(chat.createdAt)} UTC · ${messages.length} messages`,
+  ];
+
+  for (const message of messages) {
+    const speaker = message.role === "user" ? "You" : message.role === "assistant" ? "Assistant" : "System";
+    lines.push("", `## ${speaker} · ${formatDate(message.createdAt)}`, "", message.content.trim());
+
+    const tools = toolCalls(message)
+      .filter((call) => call.toolName !== "citeSources")
+      .map((call) => {
+        const query = (call.args as { query?: unknown } | undefined)?.query;
+        return typeof query === "string" ? `${call.toolName} ("${query}")` : call.toolName;
+      });
+    if (tools.length > 0) {
+      lines.push("", `_Tools: ${tools.join(", ")}_`);
+    }
+
+    const citations = citationLines(storedCitations(message.sources));
+    if (citations.length > 0) {
+      lines.push("", "**Sources**", "", ...citations.map((line) => `- ${line}`));
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * The whole chat tree as JSON, without derived search columns.
+ */
+export function chatToJson(chat: ChatRow, rows: ChatMessageRow[]): ChatExport {
+  return {
+    format: "notewise-chat",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      summary: chat.summary,
+      summaryThrough: chat.summaryThrough,
+      activeMessageId: chat.activeMessageId,
+      createdAt: chat.createdAt,
+      updatedAt: chat.updatedAt,
+    },
+    messages: rows.map((row) => ({
+      id: row.id,
+      parentMessageId: row.parentMessageId,
+      role: row.role,
+      content: row.content,
+      createdAt: row.createdAt,
+      parts: row.parts,
+      toolInvocations: row.toolInvocations,
+      sources: row.sources,
+    })),
+    activePath: pathTo(rows, activeLeaf(rows, chat.activeMessageId)).map((row) => row.id),
+  };
+}
+
+/**
+ * File name for an export: the chat title made filesystem-safe.
+ */
+export function exportFileName(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}.${extension}`;
+}
+
+export interface AnswerNote {
+  /** Document path; the same answer always maps to the same note */
+  path: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * A saved answer as a Markdown note. Frontmatter tags it as a chat answer;
+ * the body links back to the chat and lists the chunks the answer cites.
+ *
+ * @param chat - The chat the answer belongs to
+ * @param answer - The assistant message to save
+ * @param question - The user message it answers, if any
+ */
+export function answerToNote(chat: ChatRow, answer: ChatMessageRow, question: ChatMessageRow | undefined): AnswerNote {
+  const title = fallbackTitle(question?.content || chat.title);
+  const slug = exportFileName(title, "md").replace(/\.md$/, "");
+  const citations = storedCitations(answer.sources);
+
+  const lines = [
+    "---",
+    "tags: [chat-answer]",
+    `date: ${(answer.createdAt ?? new Date()).toISOString()}`,
+    "---",
+    "",
+    `# ${title}`,
+    "",
+    `Saved from the chat [${chat.title}](/?chat=${chat.id}) on ${formatDate(answer.createdAt)} UTC.`,
+  ];
+  if (question) {
+    lines.push("", "## Question", "", question.content.trim());
+  }
+  lines.push("", "## Answer", "", answer.content.trim());
+  if (citations.length > 0) {
+    lines.push(
+      "",
+      "## Sources",
+      "",
+      ...citationLines(citations, true).map((line, index) =>
+        citations[index].chunkId ? `- ${line} (chunk \`${citations[index].chunkId}\`)` : `- ${line}`
+      )
+    );
+  }
+
+  return {
+    path: `chats/${slug}-${answer.id.slice(0, 8)}.md`,
+    title: `${title}.md`,
+    content: lines.join("\n") + "\n",
+  };
+}
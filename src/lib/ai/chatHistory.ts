@@ -0,0 +1,171 @@
+import type { Message, StepResult, ToolInvocation, ToolSet, UIMessage } from "ai";
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { chatMessages } from "@/lib/db/schema";
+
+export type MessagePart = UIMessage["parts"][number];
+
+/**
+ * A saved message's place in its chat. Messages form a tree: each follows
+ * its parent, and messages with the same parent are alternative branches
+ * (an edited question or a regenerated reply).
+ */
+export interface MessageNode {
+  id: string;
+  parentMessageId: string | null;
+  createdAt: Date | null;
+}
+
+/**
+ * Where a message sits among its siblings, for switching branches.
+ */
+export interface BranchInfo {
+  /** Position among its siblings, oldest first (0-based) */
+  index: number;
+  count: number;
+  /** Ids of the message and its siblings, oldest first */
+  siblingIds: string[];
+}
+
+function byCreatedAt(a: MessageNode, b: MessageNode): number {
+  return (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+}
+
+/**
+ * Messages with the given parent (null for the chat's first messages),
+ * oldest first.
+ */
+export function childrenOf<T extends MessageNode>(nodes: T[], parentId: string | null): T[] {
+  return nodes.filter((node) => node.parentMessageId === parentId).sort(byCreatedAt);
+}
+
+/**
+ * The branch ending at `leafId`: the message and its ancestors, oldest first.
+ */
+export function pathTo<T extends MessageNode>(nodes: T[], leafId: string | null): T[] {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const path: T[] = [];
+  for (let node = leafId ? byId.get(leafId) : undefined; node; ) {
+    path.unshift(node);
+    // Guard against cycles in corrupt data
+    if (path.length > nodes.length) break;
+    node = node.parentMessageId ? byId.get(node.parentMessageId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * The last message of the newest branch below a message (or below the chat
+ * root when null), following the newest reply at each step.
+ */
+export function latestLeaf<T extends MessageNode>(nodes: T[], messageId: string | null): string | null {
+  let leafId = messageId;
+  for (let depth = 0; depth <= nodes.length; depth++) {
+    const children = childrenOf(nodes, leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+}
+
+/**
+ * The last message of the branch to show: the chat's active message if it
+ * still exists, else the newest branch.
+ */
+export function activeLeaf<T extends MessageNode>(nodes: T[], activeMessageId: string | null): string | null {
+  return activeMessageId && nodes.some((node) => node.id === activeMessageId)
+    ? activeMessageId
+    : latestLeaf(nodes, null);
+}
+
+/**
+ * A message's position among the messages sharing its parent.
+ */
+export function branchInfo<T extends MessageNode>(nodes: T[], message: T): BranchInfo {
+  const siblingIds = childrenOf(nodes, message.parentMessageId).map((node) => node.id);
+  return { index: siblingIds.indexOf(message.id), count: siblingIds.length, siblingIds };
+}
+
+/**
+ * Columns of a saved message that chats are rebuilt, shown and exported
+ * from. The search vector and embedding (thousands of floats) are left out.
+ */
+export const chatMessageColumns = {
+  id: chatMessages.id,
+  chatId: chatMessages.chatId,
+  parentMessageId: chatMessages.parentMessageId,
+  role: chatMessages.role,
+  content: chatMessages.content,
+  sources: chatMessages.sources,
+  toolInvocations: chatMessages.toolInvocations,
+  parts: chatMessages.parts,
+  createdAt: chatMessages.createdAt,
+};
+
+export type ChatMessageRow = Pick<typeof chatMessages.$inferSelect, keyof typeof chatMessageColumns>;
+
+/**
+ * Load all saved messages of a chat, in no particular order.
+ *
+ * @param chatId - Chat to load (ownership must already be checked)
+ */
+export async function loadChatMessages(chatId: string): Promise<ChatMessageRow[]> {
+  return db
+    .select(chatMessageColumns)
+    .from(chatMessages)
+    .where(eq(chatMessages.chatId, chatId))
+    .orderBy(asc(chatMessages.createdAt));
+}
+
+/**
+ * Load the branch of a chat ending at `leafId`, oldest first, in the UI
+ * message shape that `convertToCoreMessages` turns into model messages.
+ * Assistant messages keep their parts (text, tool calls and results, in step
+ * order), so follow-up questions can refer to what was retrieved. Replies
+ * saved before parts were stored fall back to their tool invocations.
+ *
+ * @param rows - The chat's saved messages (from loadChatMessages)
+ * @param leafId - Last message of the branch; null for an empty history
+ */
+export function chatHistory(
+  rows: ChatMessageRow[],
+  leafId: string | null
+): Message[] {
+  return pathTo(rows, leafId).map((row) => ({
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    createdAt: row.createdAt ?? undefined,
+    ...(row.role === "assistant" && Array.isArray(row.parts)
+      ? { parts: row.parts as MessagePart[] }
+      : row.role === "assistant" && Array.isArray(row.toolInvocations)
+        ? { toolInvocations: row.toolInvocations as ToolInvocation[] }
+        : {}),
+  }));
+}
+
+/**
+ * The parts of a finished response, as stored in chatMessages.parts: for
+ * each step a step boundary, its text and its tool calls with their results.
+ *
+ * @param steps - Steps of the response (from streamText's onFinish)
+ */
+export function messagePartsFromSteps<TOOLS extends ToolSet>(
+  steps: StepResult<TOOLS>[]
+): MessagePart[] {
+  return steps.flatMap((step, index): MessagePart[] => [
+    { type: "step-start" },
+    ...(step.text ? [{ type: "text" as const, text: step.text }] : []),
+    ...step.toolResults.map((toolResult) => ({
+      type: "tool-invocation" as const,
+      toolInvocation: {
+        state: "result" as const,
+        step: index,
+        toolCallId: toolResult.toolCallId,
+        toolName: toolResult.toolName,
+        args: toolResult.args,
+        result: toolResult.result,
+      },
+    })),
+  ]);
+}
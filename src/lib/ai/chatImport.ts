@@ -0,0 +1,546 @@
+import { createHash, randomUUID } from "crypto";
+import { and, eq, inArray } from "drizzle-orm";
+import { db, runAtomic } from "@/lib/db";
+import { chatMessages, chats, documents } from "@/lib/db/schema";
+import { chatToMarkdown, exportFileName } from "@/lib/ai/chatExport";
+import { loadChatMessages, type ChatMessageRow } from "@/lib/ai/chatHistory";
+import { fallbackTitle } from "@/lib/ai/chatTitles";
+import { ingestDocument } from "@/lib/rag/ingestion";
+
+export const CHAT_IMPORT_FORMATS = ["chatgpt", "jsonl"] as const;
+export type ChatImportFormat = (typeof CHAT_IMPORT_FORMATS)[number];
+
+/** Messages inserted per query */
+const INSERT_BATCH_SIZE = 500;
+
+type Role = "user" | "assistant" | "system";
+
+/**
+ * A message parsed from an export. Ids are the export's own; they are
+ * replaced by new ids when the chat is saved.
+ */
+export interface ImportedMessage {
+  externalId: string;
+  /** The message this one follows (null for the first) */
+  parentExternalId: string | null;
+  role: Role;
+  content: string;
+  createdAt: Date | null;
+}
+
+/**
+ * A conversation parsed from an export, as a message tree like chatMessages.
+ */
+export interface ImportedConversation {
+  externalId: string;
+  title: string;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  /** Parents before children */
+  messages: ImportedMessage[];
+  /** Last message of the branch that was shown in the other app */
+  activeExternalId: string | null;
+}
+
+export interface ParsedChatImport {
+  conversations: ImportedConversation[];
+  /** Lines or conversations that could not be read */
+  warnings: string[];
+}
+
+/**
+ * Id for a conversation the export gives none: a hash of its messages, so
+ * the same conversation is recognised on a second import and different ones
+ * never collide.
+ */
+function contentId(messages: Array<{ role: Role; content: string }>): string {
+  const hash = createHash("sha256");
+  for (const message of messages) {
+    hash.update(`${message.role}\0${message.content}\0`);
+  }
+  return `sha256:${hash.digest("hex")}`;
+}
+
+/**
+ * A timestamp in seconds or milliseconds since the epoch, or a date string.
+ */
+function toDate(value: unknown): Date | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // Seconds until the year 5138; larger values are milliseconds
+    return new Date(value < 1e11 ? value * 1000 : value);
+  }
+  if (typeof value === "string" && value.trim()) {
+    const numeric = Number(value);
+    const date = Number.isFinite(numeric) ? toDate(numeric) : new Date(value);
+    return date && !isNaN(date.getTime()) ? date : null;
+  }
+  return null;
+}
+
+/**
+ * Text of a message's content: a string, or a list of strings and
+ * `{ type: "text", text }` parts. Images and other parts are left out.
+ */
+function toText(content: unknown): string {
+  if (typeof content === "string") {
+    return content.trim();
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) =>
+        typeof part === "string"
+          ? part
+          : part && typeof part === "object" && typeof (part as { text?: unknown }).text === "string"
+            ? (part as { text: string }).text
+            : ""
+      )
+      .filter(Boolean)
+      .join("\n")
+      .trim();
+  }
+  return "";
+}
+
+const ROLE_ALIASES: Record<string, Role> = {
+  user: "user",
+  human: "user",
+  assistant: "assistant",
+  ai: "assistant",
+  bot: "assistant",
+  model: "assistant",
+  system: "system",
+};
+
+function toRole(value: unknown): Role | null {
+  return typeof value === "string" ? (ROLE_ALIASES[value.toLowerCase()] ?? null) : null;
+}
+
+interface ChatGptNode {
+  id?: string;
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+    recipient?: string;
+  } | null;
+}
+
+/**
+ * Parse a ChatGPT data export (`conversations.json`).
+ *
+ * Each conversation is a tree of nodes (`mapping`); edited questions and
+ * regenerated answers are branches, which are kept. Only visible user and
+ * assistant text is imported: system prompts, tool calls, tool output and
+ * hidden messages are skipped, and their children attach to the nearest
+ * imported ancestor.
+ */
+export function parseChatGptExport(data: unknown): ParsedChatImport {
+  const list = Array.isArray(data) ? data : [data];
+  const conversations: ImportedConversation[] = [];
+  const warnings: string[] = [];
+
+  list.forEach((item, index) => {
+    const conversation = item as {
+      id?: string;
+      conversation_id?: string;
+      title?: string;
+      create_time?: number;
+      update_time?: number;
+      mapping?: Record<string, ChatGptNode>;
+      current_node?: string;
+    };
+    const mapping = conversation?.mapping;
+    if (!mapping || typeof mapping !== "object") {
+      warnings.push(`Conversation ${index + 1}: no messages (mapping) found`);
+      return;
+    }
+
+    const createdAt = toDate(conversation.create_time);
+    const kept = new Map<string, ImportedMessage>();
+    const isKept = (node: ChatGptNode): boolean => {
+      const message = node.message;
+      const role = toRole(message?.author?.role);
+      const contentType = message?.content?.content_type;
+      return (
+        (role === "user" || role === "assistant") &&
+        (contentType === "text" || contentType === "multimodal_text") &&
+        !message?.metadata?.is_visually_hidden_from_conversation &&
+        (!message?.recipient || message.recipient === "all") &&
+        toText(message?.content?.parts) !== ""
+      );
+    };
+    // Nearest ancestor that is imported, skipping hidden and tool messages
+    const keptAncestor = (id: string | null | undefined): string | null => {
+      for (let depth = 0; id && depth <= Object.keys(mapping).length; depth++) {
+        const node = mapping[id];
+        if (!node) return null;
+        if (isKept(node)) return id;
+        id = node.parent;
+      }
+      return null;
+    };
+
+    // Walk from the roots so parents come before children
+    const children = new Map<string, string[]>();
+    const queue: string[] = [];
+    for (const [id, node] of Object.entries(mapping)) {
+      if (node.parent && mapping[node.parent]) {
+        children.set(node.parent, [...(children.get(node.parent) ?? []), id]);
+      } else {
+        queue.push(id);
+      }
+    }
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const node = mapping[id];
+      if (!node) continue;
+
+      if (isKept(node)) {
+        kept.set(id, {
+          externalId: id,
+          parentExternalId: keptAncestor(node.parent),
+          role: toRole(node.message!.author!.role)!,
+          content: toText(node.message!.content!.parts),
+          createdAt: toDate(node.message!.create_time) ?? createdAt,
+        });
+      }
+      queue.push(...(children.get(id) ?? []));
+    }
+
+    const messages = [...kept.values()];
+    if (messages.length === 0) {
+      warnings.push(`Conversation "${conversation.title ?? index + 1}": no user or assistant messages`);
+      return;
+    }
+    const firstUser = messages.find((message) => message.role === "user");
+    conversations.push({
+      externalId: conversation.conversation_id || conversation.id || contentId(messages),
+      title: conversation.title?.trim() || fallbackTitle(firstUser?.content ?? ""),
+      createdAt,
+      updatedAt: toDate(conversation.update_time),
+      messages,
+      activeExternalId: keptAncestor(conversation.current_node) ?? messages[messages.length - 1].externalId,
+    });
+  });
+
+  return { conversations, warnings };
+}
+
+interface JsonlMessage {
+  role?: unknown;
+  author?: unknown;
+  content?: unknown;
+  text?: unknown;
+  timestamp?: unknown;
+  created_at?: unknown;
+  createdAt?: unknown;
+}
+
+function readJsonlMessage(line: JsonlMessage): { role: Role; content: string; createdAt: Date | null } | null {
+  const role = toRole(line.role ?? line.author);
+  const content = toText(line.content ?? line.text);
+  return role && content
+    ? { role, content, createdAt: toDate(line.timestamp ?? line.created_at ?? line.createdAt) }
+    : null;
+}
+
+/**
+ * Parse JSONL transcripts. Each line is either a whole conversation
+ * (`{ "id", "title", "messages": [...] }`) or one message
+ * (`{ "conversation_id", "title", "role", "content", "timestamp" }`);
+ * message lines are grouped by conversation id in file order. Roles may be
+ * user/human, assistant/ai/bot/model or system. Conversations are linear.
+ *
+ * @param text - File contents
+ * @param name - Title for messages without a conversation id
+ */
+export function parseJsonlTranscripts(text: string, name = "Imported chat"): ParsedChatImport {
+  // Keyed by conversation id, or by line number or file name when there is none
+  const grouped = new Map<
+    string,
+    { hasId: boolean; title?: string; createdAt?: Date | null; messages: ReturnType<typeof readJsonlMessage>[] }
+  >();
+  const warnings: string[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    if (!raw.trim()) return;
+    let line: Record<string, unknown>;
+    try {
+      line = JSON.parse(raw);
+    } catch {
+      warnings.push(`Line ${index + 1}: not valid JSON`);
+      return;
+    }
+    if (!line || typeof line !== "object" || Array.isArray(line)) {
+      warnings.push(`Line ${index + 1}: not a JSON object`);
+      return;
+    }
+
+    if (Array.isArray(line.messages)) {
+      const id = line.id ?? line.conversation_id;
+      grouped.set(id == null ? `line-${index + 1}` : String(id), {
+        hasId: id != null,
+        title: typeof line.title === "string" ? line.title : undefined,
+        createdAt: toDate(line.created_at ?? line.createdAt ?? line.timestamp),
+        messages: (line.messages as JsonlMessage[]).map(readJsonlMessage),
+      });
+      return;
+    }
+
+    const message = readJsonlMessage(line);
+    if (!message) {
+      warnings.push(`Line ${index + 1}: no role or content`);
+      return;
+    }
+    const id = line.conversation_id ?? line.conversationId ?? line.chat_id ?? line.thread_id;
+    const key = id == null ? name : String(id);
+    const group = grouped.get(key) ?? { hasId: id != null, messages: [] };
+    const title = line.conversation_title ?? line.title;
+    if (!group.title && typeof title === "string") group.title = title;
+    group.messages.push(message);
+    grouped.set(key, group);
+  });
+
+  const conversations = [...grouped.entries()].flatMap(([key, group]): ImportedConversation[] => {
+    const messages = group.messages.flatMap((message) => (message ? [message] : []));
+    if (messages.length === 0) {
+      warnings.push(`Conversation "${group.title ?? key}": no messages`);
+      return [];
+    }
+    const id = group.hasId ? key : contentId(messages);
+    const imported = messages.map((message, index) => ({
+      externalId: `${id}:${index}`,
+      parentExternalId: index > 0 ? `${id}:${index - 1}` : null,
+      ...message,
+    }));
+    const dates = messages.flatMap((message) => (message.createdAt ? [message.createdAt.getTime()] : []));
+    const firstUser = messages.find((message) => message.role === "user");
+
+    return [
+      {
+        externalId: id,
+        title: group.title?.trim() || (key === name && !group.hasId ? name : fallbackTitle(firstUser?.content ?? "")),
+        createdAt: group.createdAt ?? (dates.length > 0 ? new Date(Math.min(...dates)) : null),
+        updatedAt: dates.length > 0 ? new Date(Math.max(...dates)) : null,
+        messages: imported,
+        activeExternalId: imported[imported.length - 1].externalId,
+      },
+    ];
+  });
+
+  return { conversations, warnings };
+}
+
+/**
+ * Guess the format of an export: `.jsonl` files and text that is not one
+ * JSON document are JSONL, anything else is a ChatGPT export.
+ */
+export function detectChatImportFormat(fileName: string, text: string): ChatImportFormat {
+  if (fileName.endsWith(".jsonl")) return "jsonl";
+  try {
+    JSON.parse(text);
+    return "chatgpt";
+  } catch {
+    return "jsonl";
+  }
+}
+
+/**
+ * Parse an export in the given format.
+ *
+ * @throws Error if a ChatGPT export is not valid JSON
+ */
+export function parseChatImport(text: string, format: ChatImportFormat, name?: string): ParsedChatImport {
+  if (format === "jsonl") {
+    return parseJsonlTranscripts(text, name);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("ChatGPT export is not valid JSON (expected conversations.json)");
+  }
+  return parseChatGptExport(data);
+}
+
+export interface ChatImportOptions {
+  /** Recorded on each chat so importing the same export again skips it */
+  source: ChatImportFormat;
+  /** Also ingest each conversation as a note (source type chat-import) */
+  asNotes?: boolean;
+}
+
+export interface ChatImportResult {
+  /** Chats created */
+  imported: Array<{ chatId: string; title: string; messages: number }>;
+  /** Conversations already imported from the same source */
+  skipped: number;
+  /** Notes ingested for imported conversations */
+  notes: number;
+  /** Conversations that could not be saved, or whose note could not be */
+  failed: Array<{ title: string; error: string }>;
+}
+
+type ChatRow = typeof chats.$inferSelect;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Ingest an imported chat's shown branch as a Markdown note. The path ends
+ * with the chat id, so saving it again updates the same note.
+ */
+async function ingestImportNote(chat: ChatRow, rows: ChatMessageRow[], source: ChatImportFormat): Promise<void> {
+  const date = chat.createdAt ?? new Date();
+  const note = chatToMarkdown(chat, rows, null);
+  const slug = exportFileName(chat.title, "md").replace(/\.md$/, "");
+  await ingestDocument({
+    userId: chat.userId,
+    path: `imports/${source}/${slug}-${chat.id.slice(0, 8)}.md`,
+    title: `${chat.title}.md`,
+    content: `---\ntags: [chat-import]\ndate: ${date.toISOString()}\n---\n\n${note}`,
+    sourceType: "chat-import",
+    metadata: { chatId: chat.id, importSource: source },
+  });
+}
+
+/**
+ * Save parsed conversations as chats, keeping their titles, timestamps and
+ * branches. Conversations imported before from the same source are skipped.
+ * With `asNotes`, each chat's shown branch is also ingested as a Markdown
+ * note under imports/, so its content is found by searchNotes; a skipped
+ * chat whose note is missing (e.g. ingestion failed last time) gets it now.
+ * A conversation that fails is reported in `failed` and the rest go on.
+ *
+ * @param userId - Owner of the new chats
+ * @param conversations - Parsed conversations
+ * @param options - Import source and whether to ingest notes
+ */
+export async function importConversations(
+  userId: string,
+  conversations: ImportedConversation[],
+  options: ChatImportOptions
+): Promise<ChatImportResult> {
+  const existing: ChatRow[] =
+    conversations.length > 0
+      ? await db
+          .select()
+          .from(chats)
+          .where(
+            and(
+              eq(chats.userId, userId),
+              eq(chats.importSource, options.source),
+              inArray(
+                chats.importId,
+                conversations.map((conversation) => conversation.externalId)
+              )
+            )
+          )
+      : [];
+  const importedChats = new Map(existing.map((chat) => [chat.importId, chat]));
+
+  // Chats that already have their note, recognised by the chat id in its path
+  const notePaths: Array<{ path: string }> =
+    options.asNotes && existing.length > 0
+      ? await db
+          .select({ path: documents.path })
+          .from(documents)
+          .where(and(eq(documents.userId, userId), eq(documents.sourceType, "chat-import")))
+      : [];
+  const notedChatIds = new Set(
+    existing
+      .filter((chat) =>
+        notePaths.some(
+          ({ path }) =>
+            path.startsWith(`imports/${options.source}/`) && path.endsWith(`-${chat.id.slice(0, 8)}.md`)
+        )
+      )
+      .map((chat) => chat.id)
+  );
+
+  const result: ChatImportResult = { imported: [], skipped: 0, notes: 0, failed: [] };
+
+  const saveNote = async (chat: ChatRow, rows: ChatMessageRow[]) => {
+    try {
+      await ingestImportNote(chat, rows, options.source);
+      notedChatIds.add(chat.id);
+      result.notes++;
+    } catch (error) {
+      console.error(`Failed to save note for imported chat "${chat.title}":`, error);
+      result.failed.push({ title: chat.title, error: `Note not saved: ${errorMessage(error)}` });
+    }
+  };
+
+  for (const conversation of conversations) {
+    const previous = importedChats.get(conversation.externalId);
+    if (previous) {
+      result.skipped++;
+      if (options.asNotes && !notedChatIds.has(previous.id)) {
+        await saveNote(previous, await loadChatMessages(previous.id));
+      }
+      continue;
+    }
+
+    const chatId = randomUUID();
+    const ids = new Map(conversation.messages.map((message) => [message.externalId, randomUUID()]));
+    const fallbackDate = conversation.createdAt ?? new Date();
+    const rows = conversation.messages.map((message) => ({
+      id: ids.get(message.externalId)!,
+      chatId,
+      parentMessageId: message.parentExternalId ? (ids.get(message.parentExternalId) ?? null) : null,
+      role: message.role,
+      content: message.content,
+      createdAt: message.createdAt ?? fallbackDate,
+    }));
+    const chat: ChatRow = {
+      id: chatId,
+      userId,
+      title: conversation.title,
+      summary: null,
+      summaryThrough: null,
+      activeMessageId: conversation.activeExternalId
+        ? (ids.get(conversation.activeExternalId) ?? null)
+        : null,
+      importSource: options.source,
+      importId: conversation.externalId,
+      createdAt: fallbackDate,
+      updatedAt: conversation.updatedAt ?? fallbackDate,
+    };
+
+    try {
+      // The chat and its messages are saved together or not at all
+      await runAtomic((conn) => {
+        const batches = [];
+        for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+          batches.push(conn.insert(chatMessages).values(rows.slice(i, i + INSERT_BATCH_SIZE)));
+        }
+        return [
+          conn.insert(chats).values({ ...chat, activeMessageId: null }),
+          ...batches,
+          conn.update(chats).set({ activeMessageId: chat.activeMessageId }).where(eq(chats.id, chatId)),
+        ];
+      });
+    } catch (error) {
+      console.error(`Failed to import chat "${conversation.title}":`, error);
+      result.failed.push({ title: conversation.title, error: errorMessage(error) });
+      continue;
+    }
+    importedChats.set(conversation.externalId, chat);
+    result.imported.push({ chatId, title: conversation.title, messages: rows.length });
+
+    if (options.asNotes) {
+      await saveNote(
+        chat,
+        rows.map((row) => ({ ...row, sources: null, toolInvocations: null, parts: null }))
+      );
+    }
+  }
+
+  return result;
+}
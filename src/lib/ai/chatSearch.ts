@@ -0,0 +1,268 @@
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { cosineDistance } from "drizzle-orm/sql/functions/vector";
+import { db } from "@/lib/db";
+import { chatMessages, chats } from "@/lib/db/schema";
+import {
+  generateEmbedding,
+  generateEmbeddings,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from "@/lib/rag/embeddings";
+import { keywordQuery } from "@/lib/rag/vectorStore";
+
+/** Messages fetched per search method before grouping by chat */
+const MESSAGE_CANDIDATES = 50;
+/** Matching messages listed per chat */
+const MATCHES_PER_CHAT = 3;
+const RRF_K = 60;
+/** Length of a snippet for messages matched by meaning only */
+const PLAIN_SNIPPET_LENGTH = 160;
+
+// ts_headline markers, swapped for <mark> after the snippet is HTML-escaped
+const START_SEL = "⟦";
+const STOP_SEL = "⟧";
+
+/**
+ * Whether chat messages are embedded for semantic search
+ * (CHAT_MESSAGE_EMBEDDINGS=true).
+ */
+export function chatEmbeddingsEnabled(): boolean {
+  return process.env.CHAT_MESSAGE_EMBEDDINGS === "true";
+}
+
+/**
+ * Embed saved chat messages with the configured provider, for semantic chat
+ * search. Does nothing unless CHAT_MESSAGE_EMBEDDINGS=true.
+ *
+ * @param messages - Saved messages (id and content)
+ */
+export async function embedChatMessages(
+  messages: Array<{ id: string; content: string }>,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<void> {
+  const texts = messages.filter((message) => message.content.trim());
+  if (!chatEmbeddingsEnabled() || texts.length === 0) {
+    return;
+  }
+
+  const vectors = await generateEmbeddings(
+    texts.map((message) => message.content),
+    provider
+  );
+  await Promise.all(
+    texts.map((message, index) =>
+      db
+        .update(chatMessages)
+        .set({
+          embedding: vectors[index],
+          embeddingProvider: provider.id,
+          embeddingModel: provider.model,
+          embeddingDimensions: provider.dimensions,
+        })
+        .where(eq(chatMessages.id, message.id))
+    )
+  );
+}
+
+export interface ChatSearchMatch {
+  messageId: string;
+  role: "user" | "assistant" | "system";
+  /** Excerpt of the message; matched words are wrapped in <mark>, the rest is HTML-escaped */
+  snippet: string;
+  createdAt: Date | null;
+  matchedBy: Array<"keyword" | "semantic">;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  title: string;
+  updatedAt: Date | null;
+  /** Fused rank score of the chat's best message */
+  score: number;
+  matches: ChatSearchMatch[];
+}
+
+export interface ChatSearchOptions {
+  /** Also match by meaning (default: true; only when message embeddings are enabled) */
+  semantic?: boolean;
+  /** Maximum number of chats (default: 20) */
+  limit?: number;
+}
+
+interface MessageHit {
+  messageId: string;
+  chatId: string;
+  role: "user" | "assistant" | "system";
+  snippet: string;
+  createdAt: Date | null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function highlight(headline: string): string {
+  return escapeHtml(headline)
+    .replaceAll(START_SEL, "<mark>")
+    .replaceAll(STOP_SEL, "</mark>");
+}
+
+function plainSnippet(content: string): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  return escapeHtml(
+    text.length > PLAIN_SNIPPET_LENGTH ? text.slice(0, PLAIN_SNIPPET_LENGTH - 3) + "..." : text
+  );
+}
+
+/**
+ * The user's messages matching the query's words, best first, with
+ * ts_headline snippets.
+ */
+async function keywordMessages(userId: string, query: string): Promise<MessageHit[]> {
+  const tsQuery = keywordQuery(query);
+  if (!tsQuery) {
+    return [];
+  }
+  const rank = sql<number>`ts_rank_cd(${chatMessages.searchVector}, ${tsQuery}, 33)`;
+  // Literal marker characters in a message would become stray <mark> tags
+  const content = sql`translate(${chatMessages.content}, ${START_SEL + STOP_SEL}, '')`;
+  const headline = sql<string>`ts_headline('english', ${content}, ${tsQuery}, ${`StartSel=${START_SEL}, StopSel=${STOP_SEL}, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`})`;
+
+  const rows: Array<Omit<MessageHit, "snippet"> & { headline: string }> = await db
+    .select({
+      messageId: chatMessages.id,
+      chatId: chatMessages.chatId,
+      role: chatMessages.role,
+      createdAt: chatMessages.createdAt,
+      headline,
+    })
+    .from(chatMessages)
+    .innerJoin(chats, eq(chats.id, chatMessages.chatId))
+    .where(and(eq(chats.userId, userId), sql`${chatMessages.searchVector} @@ ${tsQuery}`))
+    .orderBy(desc(rank))
+    .limit(MESSAGE_CANDIDATES);
+
+  return rows.map(({ headline, ...row }) => ({ ...row, snippet: highlight(headline) }));
+}
+
+/**
+ * The user's embedded messages closest in meaning to the query.
+ */
+async function semanticMessages(
+  userId: string,
+  query: string,
+  provider: EmbeddingProvider
+): Promise<MessageHit[]> {
+  const queryEmbedding = await generateEmbedding(query, provider);
+  const distance = cosineDistance(chatMessages.embedding, queryEmbedding);
+
+  const rows: Array<Omit<MessageHit, "snippet"> & { content: string }> = await db
+    .select({
+      messageId: chatMessages.id,
+      chatId: chatMessages.chatId,
+      role: chatMessages.role,
+      createdAt: chatMessages.createdAt,
+      content: chatMessages.content,
+    })
+    .from(chatMessages)
+    .innerJoin(chats, eq(chats.id, chatMessages.chatId))
+    .where(
+      and(
+        eq(chats.userId, userId),
+        eq(chatMessages.embeddingProvider, provider.id),
+        eq(chatMessages.embeddingModel, provider.model),
+        eq(chatMessages.embeddingDimensions, provider.dimensions)
+      )
+    )
+    .orderBy(distance)
+    .limit(MESSAGE_CANDIDATES);
+
+  return rows.map(({ content, ...row }) => ({ ...row, snippet: plainSnippet(content) }));
+}
+
+/**
+ * Search the user's chat history.
+ *
+ * Messages are matched by keyword (Postgres full-text search) and, when
+ * enabled, by meaning; the two rankings are fused with reciprocal rank
+ * fusion. Results are grouped by chat, best chat first, each listing its
+ * best matching messages.
+ *
+ * @param userId - Only this user's chats are searched
+ * @param query - Search text
+ * @param options - Semantic matching and result limit
+ */
+export async function searchChats(
+  userId: string,
+  query: string,
+  options: ChatSearchOptions = {}
+): Promise<ChatSearchResult[]> {
+  const { limit = 20 } = options;
+  // Without message embeddings there is nothing to compare the query with
+  const semantic = chatEmbeddingsEnabled() && (options.semantic ?? true);
+
+  const [keywordHits, semanticHits] = await Promise.all([
+    keywordMessages(userId, query),
+    semantic ? semanticMessages(userId, query, getEmbeddingProvider()) : Promise.resolve([]),
+  ]);
+
+  // Fuse per message, keeping the highlighted snippet when there is one
+  const fused = new Map<string, MessageHit & { score: number; matchedBy: ChatSearchMatch["matchedBy"] }>();
+  const lists: Array<[MessageHit[], "keyword" | "semantic"]> = [
+    [keywordHits, "keyword"],
+    [semanticHits, "semantic"],
+  ];
+  for (const [hits, method] of lists) {
+    hits.forEach((hit, index) => {
+      const existing = fused.get(hit.messageId);
+      const score = 1 / (RRF_K + index + 1);
+      fused.set(
+        hit.messageId,
+        existing
+          ? { ...existing, score: existing.score + score, matchedBy: [...existing.matchedBy, method] }
+          : { ...hit, score, matchedBy: [method] }
+      );
+    });
+  }
+
+  const byChat = new Map<string, Array<MessageHit & { score: number; matchedBy: ChatSearchMatch["matchedBy"] }>>();
+  for (const hit of [...fused.values()].sort((a, b) => b.score - a.score)) {
+    byChat.set(hit.chatId, [...(byChat.get(hit.chatId) ?? []), hit]);
+  }
+
+  const chatIds = [...byChat.keys()].slice(0, limit);
+  if (chatIds.length === 0) {
+    return [];
+  }
+  const chatRows: Array<{ id: string; title: string; updatedAt: Date | null }> = await db
+    .select({ id: chats.id, title: chats.title, updatedAt: chats.updatedAt })
+    .from(chats)
+    .where(and(eq(chats.userId, userId), inArray(chats.id, chatIds)));
+  const chatsById = new Map(chatRows.map((chat) => [chat.id, chat]));
+
+  return chatIds.flatMap((chatId) => {
+    const chat = chatsById.get(chatId);
+    const hits = byChat.get(chatId)!;
+    return chat
+      ? [
+          {
+            chatId,
+            title: chat.title,
+            updatedAt: chat.updatedAt,
+            score: hits[0].score,
+            matches: hits.slice(0, MATCHES_PER_CHAT).map((hit) => ({
+              messageId: hit.messageId,
+              role: hit.role,
+              snippet: hit.snippet,
+              createdAt: hit.createdAt,
+              matchedBy: hit.matchedBy,
+            })),
+          },
+        ]
+      : [];
+  });
+}
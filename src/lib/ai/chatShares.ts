@@ -0,0 +1,125 @@
+import { randomBytes } from "crypto";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { chatShares, chats } from "@/lib/db/schema";
+import { storedCitations, type Citation } from "@/lib/ai/citations";
+import { loadChatMessages, pathTo } from "@/lib/ai/chatHistory";
+
+export type ChatShare = typeof chatShares.$inferSelect;
+
+/** Longest expiry a link can be given */
+export const MAX_SHARE_DAYS = 365;
+
+/**
+ * A random, URL-safe link token (192 bits).
+ */
+export function createShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Whether a link still works: not revoked and not expired.
+ */
+export function isShareActive(share: Pick<ChatShare, "revokedAt" | "expiresAt">, now = new Date()): boolean {
+  return !share.revokedAt && (!share.expiresAt || share.expiresAt > now);
+}
+
+/**
+ * A citation as shown through a link. Ids are dropped; the cited text and
+ * quote are kept only for chunks the owner chose to include.
+ */
+export type SharedCitation = Omit<Citation, "chunkId" | "documentId"> & {
+  /** False when the owner did not share the chunk's text */
+  contentShared: boolean;
+};
+
+export interface SharedChat {
+  title: string;
+  sharedAt: Date | null;
+  expiresAt: Date | null;
+  /** The shared branch, oldest first: text and citations only, no tool calls */
+  messages: Array<{
+    id: string;
+    role: "user" | "assistant" | "system";
+    content: string;
+    createdAt: Date | null;
+    sources: SharedCitation[];
+  }>;
+}
+
+/**
+ * Remove what a link must not reveal from a message's citations.
+ *
+ * @param sources - The message's stored sources
+ * @param includedChunkIds - Chunks whose text the owner shared
+ */
+export function redactCitations(sources: unknown, includedChunkIds: string[]): SharedCitation[] {
+  const included = new Set(includedChunkIds);
+  return storedCitations(sources).map((citation) => {
+    const contentShared = included.has(citation.chunkId);
+    return {
+      ref: citation.ref,
+      source: citation.source,
+      section: citation.section,
+      similarity: citation.similarity,
+      rerankScore: citation.rerankScore,
+      content: contentShared ? citation.content : "",
+      ...(contentShared
+        ? { quote: citation.quote, quoteStart: citation.quoteStart, quoteEnd: citation.quoteEnd }
+        : {}),
+      contentShared,
+    };
+  });
+}
+
+/**
+ * The chunk ids cited by a list of messages.
+ */
+export function citedChunkIds(messages: Array<{ sources: unknown }>): string[] {
+  return [
+    ...new Set(
+      messages.flatMap((message) =>
+        storedCitations(message.sources).flatMap((citation) => (citation.chunkId ? [citation.chunkId] : []))
+      )
+    ),
+  ];
+}
+
+/**
+ * Load the chat behind a link, read-only and redacted.
+ *
+ * @param token - The link token
+ * @returns null if there is no such link, or it was revoked or has expired
+ */
+export async function loadSharedChat(token: string): Promise<SharedChat | null> {
+  const [share]: ChatShare[] = await db
+    .select()
+    .from(chatShares)
+    .where(eq(chatShares.token, token));
+
+  if (!share || !isShareActive(share)) {
+    return null;
+  }
+
+  const [chat]: Array<{ title: string }> = await db
+    .select({ title: chats.title })
+    .from(chats)
+    .where(eq(chats.id, share.chatId));
+  if (!chat) {
+    return null;
+  }
+
+  const rows = await loadChatMessages(share.chatId);
+  return {
+    title: chat.title,
+    sharedAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    messages: pathTo(rows, share.messageId).map((row) => ({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      createdAt: row.createdAt,
+      sources: redactCitations(row.sources, share.includedChunkIds),
+    })),
+  };
+}
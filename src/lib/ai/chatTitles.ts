@@ -0,0 +1,62 @@
+import { openai } from "@ai-sdk/openai";
+import { generateText } from "ai";
+
+const MAX_TITLE_LENGTH = 50;
+const DEFAULT_TITLE_MODEL = "gpt-4o-mini";
+
+/**
+ * Title made from the start of the first message, used until (or instead
+ * of) a generated one.
+ */
+export function fallbackTitle(message: string): string {
+  const text = message.replace(/\s+/g, " ").trim();
+  if (!text) {
+    return "New Chat";
+  }
+  return text.length > MAX_TITLE_LENGTH
+    ? text.substring(0, MAX_TITLE_LENGTH - 3) + "..."
+    : text;
+}
+
+/**
+ * Write a short title for a chat from its first exchange. Falls back to the
+ * truncated first message when no model is configured or the call fails.
+ *
+ * @param userMessage - The chat's first user message
+ * @param reply - The assistant's first reply
+ * @param model - Title model (default: CHAT_TITLE_MODEL or gpt-4o-mini)
+ */
+export async function generateChatTitle(
+  userMessage: string,
+  reply: string,
+  model: string = process.env.CHAT_TITLE_MODEL || DEFAULT_TITLE_MODEL
+): Promise<string> {
+  if (!process.env.OPENAI_API_KEY) {
+    return fallbackTitle(userMessage);
+  }
+
+  try {
+    const { text } = await generateText({
+      model: openai(model),
+      temperature: 0,
+      maxTokens: 24,
+      prompt: `Write a title of 3 to 6 words for this conversation, naming its topic. Reply with the title only, without quotes or a trailing period.
+
+User: ${userMessage.slice(0, 2000)}
+
+Assistant: ${reply.slice(0, 2000)}`,
+    });
+
+    const title = text
+      .split("\n")[0]
+      .replace(/^["'*#\s]+|["'*.\s]+$/g, "")
+      .replace(/^title:\s*/i, "");
+    return title ? fallbackTitle(title) : fallbackTitle(userMessage);
+  } catch (error) {
+    console.warn(
+      "Chat title generation failed, using the first message:",
+      error instanceof Error ? error.message : error
+    );
+    return fallbackTitle(userMessage);
+  }
+}
@@ -0,0 +1,348 @@
+import type { StreamTextTransform, TextStreamPart, ToolSet } from "ai";
+import { splitSentences } from "@/lib/rag/chunking";
+
+/**
+ * A chunk the assistant used in its answer, as sent on the data stream and
+ * stored in chatMessages.sources.
+ */
+export interface Citation {
+  /** Number of the inline marker citing this chunk, e.g. 1 for [1] */
+  ref: number;
+  chunkId: string;
+  documentId: string;
+  source: string;
+  section?: string;
+  similarity: number;
+  rerankScore?: number;
+  /** The retrieved text the model read (the chunk, its section or its passage) */
+  content: string;
+  /** Exact text from the content supporting the answer */
+  quote?: string;
+  /** Character range of the quote within `content` */
+  quoteStart?: number;
+  quoteEnd?: number;
+}
+
+/**
+ * Citations stored with a message. Messages saved before structured
+ * citations only carry a name and relevance; they get ref 0.
+ */
+export function storedCitations(sources: unknown): Citation[] {
+  const list = Array.isArray(sources)
+    ? sources
+    : sources && typeof sources === "object" && Array.isArray((sources as { sources?: unknown }).sources)
+      ? (sources as { sources: unknown[] }).sources
+      : [];
+
+  return list.flatMap((source): Citation[] => {
+    if (!source || typeof source !== "object") return [];
+    const ref = source as Record<string, unknown>;
+    if (typeof ref.chunkId === "string") return [ref as unknown as Citation];
+    if (typeof ref.name === "string") {
+      return [
+        {
+          ref: 0,
+          chunkId: "",
+          documentId: "",
+          source: ref.name,
+          similarity: typeof ref.relevance === "number" ? ref.relevance : 0,
+          content: "",
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+/**
+ * A searchNotes result as recorded by the tracker.
+ */
+export interface RetrievedChunk {
+  /** Marker number, assigned in retrieval order and stable within the turn */
+  ref: number;
+  chunkId: string;
+  documentId: string;
+  source: string;
+  section?: string;
+  content: string;
+  similarity: number;
+  rerankScore?: number;
+}
+
+export interface CitationRequest {
+  chunkId: string;
+  quote?: string;
+}
+
+export interface CitationResult {
+  cited: Citation[];
+  /** Requests that did not match a retrieved chunk or its content */
+  rejected: Array<CitationRequest & { reason: string }>;
+}
+
+/**
+ * Message annotation carrying the citations of an assistant message.
+ */
+export interface SourcesAnnotation {
+  type: "sources";
+  sources: Citation[];
+}
+
+/**
+ * Locate a quote in retrieved content, ignoring differences in whitespace
+ * and case.
+ *
+ * @returns The character range of the quote, or null if it is not present
+ */
+export function findQuote(
+  content: string,
+  quote: string
+): { start: number; end: number } | null {
+  const words = quote.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return null;
+  }
+
+  const pattern = new RegExp(
+    words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("\\s+"),
+    "i"
+  );
+  const match = pattern.exec(content);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+const WORD = /[\p{L}\p{N}]{3,}/gu;
+
+/**
+ * The sentence of `content` sharing the most words with `claim`, used to
+ * highlight what an inline marker points at when no quote was given.
+ *
+ * @returns The sentence's character range, or null if no words are shared
+ */
+export function bestMatchingSentence(
+  content: string,
+  claim: string
+): { start: number; end: number } | null {
+  const claimWords = new Set((claim.toLowerCase().match(WORD) ?? []));
+  let best: { start: number; end: number } | null = null;
+  let bestScore = 0;
+
+  for (const sentence of splitSentences(content)) {
+    const words = new Set(sentence.text.toLowerCase().match(WORD) ?? []);
+    let shared = 0;
+    for (const word of words) {
+      if (claimWords.has(word)) shared++;
+    }
+    const score = words.size > 0 ? shared / Math.sqrt(words.size) : 0;
+    if (score > bestScore) {
+      bestScore = score;
+      best = { start: sentence.start, end: sentence.end };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Inline citation markers: [1], or several refs in one bracket as [1, 3].
+ * Brackets right after a word (e.g. `items[0]`) are indexing, not markers.
+ */
+const MARKER = /( ?)(?<!\w)\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * An unfinished marker at the end of streamed text, held back until the
+ * next delta shows whether it is one.
+ */
+const PARTIAL_MARKER = / ?\[[\d,\s]{0,16}$/;
+
+/**
+ * Tracks the chunks retrieved during one chat turn and validates the
+ * citations the model makes against them, so only chunks that were actually
+ * retrieved (and quotes that actually occur in them) are reported.
+ */
+export function createCitationTracker() {
+  const retrieved = new Map<string, RetrievedChunk>();
+  const byRef = new Map<number, RetrievedChunk>();
+  const cited = new Map<string, Citation>();
+
+  const toCitation = (
+    chunk: RetrievedChunk,
+    span: { start: number; end: number } | null
+  ): Citation => ({
+    ref: chunk.ref,
+    chunkId: chunk.chunkId,
+    documentId: chunk.documentId,
+    source: chunk.source,
+    section: chunk.section,
+    similarity: chunk.similarity,
+    rerankScore: chunk.rerankScore,
+    content: chunk.content,
+    ...(span && {
+      quote: chunk.content.slice(span.start, span.end),
+      quoteStart: span.start,
+      quoteEnd: span.end,
+    }),
+  });
+
+  return {
+    /**
+     * Record searchNotes results and number them. A chunk retrieved again
+     * keeps its number; its content is updated.
+     */
+    record(chunks: Array<Omit<RetrievedChunk, "ref">>): RetrievedChunk[] {
+      return chunks.map((chunk) => {
+        const numbered = {
+          ...chunk,
+          ref: retrieved.get(chunk.chunkId)?.ref ?? retrieved.size + 1,
+        };
+        retrieved.set(chunk.chunkId, numbered);
+        byRef.set(numbered.ref, numbered);
+        return numbered;
+      });
+    },
+
+    /** Whether a marker number refers to a chunk retrieved this turn */
+    isValidRef(ref: number): boolean {
+      return byRef.has(ref);
+    },
+
+    /**
+     * Cite the chunk behind an inline marker. Without an earlier quote, the
+     * chunk sentence closest to `claim` (the answer text before the marker)
+     * is highlighted.
+     *
+     * @returns The citation, or null if the marker refers to no retrieved chunk
+     */
+    citeMarker(ref: number, claim: string): Citation | null {
+      const chunk = byRef.get(ref);
+      if (!chunk) {
+        return null;
+      }
+      const existing = cited.get(chunk.chunkId);
+      if (existing?.quote) {
+        return existing;
+      }
+      const citation = toCitation(chunk, bestMatchingSentence(chunk.content, claim));
+      cited.set(chunk.chunkId, citation);
+      return citation;
+    },
+
+    /** Validate and add citations, keeping one per chunk */
+    cite(requests: CitationRequest[]): CitationResult {
+      const result: CitationResult = { cited: [], rejected: [] };
+
+      for (const request of requests) {
+        const chunk = retrieved.get(request.chunkId);
+        if (!chunk) {
+          result.rejected.push({ ...request, reason: "chunkId was not returned by searchNotes" });
+          continue;
+        }
+
+        const span = request.quote ? findQuote(chunk.content, request.quote) : null;
+        if (request.quote && !span) {
+          result.rejected.push({ ...request, reason: "quote does not appear in the chunk" });
+          continue;
+        }
+
+        const citation = toCitation(chunk, span);
+        cited.set(citation.chunkId, citation);
+        result.cited.push(citation);
+      }
+
+      return result;
+    },
+
+    /** All citations of the turn, by marker number */
+    citations(): Citation[] {
+      return Array.from(cited.values()).sort((a, b) => a.ref - b.ref);
+    },
+  };
+}
+
+export type CitationTracker = ReturnType<typeof createCitationTracker>;
+
+/**
+ * Last sentence of the answer text before a marker.
+ */
+function lastSentence(text: string): string {
+  const sentences = text.trim().split(/(?<=[.!?])\s+|\n+/);
+  return sentences[sentences.length - 1] ?? "";
+}
+
+/**
+ * Stream transform that checks inline citation markers as the answer
+ * streams. Markers for chunks retrieved this turn are kept and cited;
+ * any other marker is removed, so made-up citations never reach the client
+ * or the saved message.
+ *
+ * @param tracker - The turn's citation tracker
+ * @param onCite - Called with all citations whenever a marker adds one
+ */
+export function citationMarkerTransform<TOOLS extends ToolSet>(
+  tracker: CitationTracker,
+  onCite: (citations: Citation[]) => void
+): StreamTextTransform<TOOLS> {
+  return () => {
+    // Text held back because it may end in a partial marker
+    let pending = "";
+    // Answer text already sent, for the sentence a marker follows
+    let sent = "";
+
+    const resolve = (text: string): string => {
+      let added = false;
+
+      const result = text.replace(MARKER, (marker, space: string, refs: string, offset: number) => {
+        const valid = refs
+          .split(",")
+          .map((ref) => parseInt(ref, 10))
+          .filter((ref) => tracker.isValidRef(ref));
+
+        if (valid.length < refs.split(",").length) {
+          console.warn(`[citations] Removed unknown citation marker ${marker.trim()}`);
+        }
+        for (const ref of valid) {
+          const before = tracker.citations().length;
+          tracker.citeMarker(ref, lastSentence(sent + text.slice(0, offset)));
+          added ||= tracker.citations().length > before;
+        }
+        // A removed marker takes its leading space with it
+        return valid.length > 0 ? `${space}[${valid.join(", ")}]` : "";
+      });
+
+      if (added) {
+        onCite(tracker.citations());
+      }
+      return result;
+    };
+
+    const release = (
+      controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>,
+      text: string
+    ) => {
+      if (text) {
+        sent += text;
+        controller.enqueue({ type: "text-delta", textDelta: text });
+      }
+    };
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(part, controller) {
+        if (part.type !== "text-delta") {
+          release(controller, resolve(pending));
+          pending = "";
+          controller.enqueue(part);
+          return;
+        }
+
+        const text = pending + part.textDelta;
+        const partial = text.match(PARTIAL_MARKER);
+        const cut = partial ? partial.index! : text.length;
+        pending = text.slice(cut);
+        release(controller, resolve(text.slice(0, cut)));
+      },
+      flush(controller) {
+        release(controller, resolve(pending));
+      },
+    });
+  };
+}
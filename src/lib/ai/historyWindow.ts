@@ -0,0 +1,297 @@
+import { openai } from "@ai-sdk/openai";
+import { generateText, type Message } from "ai";
+import { countTokens, decodeTokens, encodeTokens } from "@/lib/rag/tokenizer";
+
+/**
+ * How much of a chat is sent to the model each turn.
+ */
+export interface HistoryBudget {
+  /** The model's context window in tokens */
+  contextWindow: number;
+  /** Most tokens of earlier messages sent verbatim */
+  historyTokens: number;
+  /** Most recent turns (a user message and its replies) kept verbatim */
+  recentTurns: number;
+  /** Longest rolling summary of older turns, in tokens */
+  summaryTokens: number;
+  /** Tokens left free for the reply */
+  reservedOutputTokens: number;
+}
+
+const DEFAULT_HISTORY_BUDGET: HistoryBudget = {
+  contextWindow: 128_000,
+  historyTokens: 16_000,
+  recentTurns: 6,
+  summaryTokens: 800,
+  reservedOutputTokens: 4_096,
+};
+
+/**
+ * Most transcript tokens sent to the summary model in one call, well inside
+ * the context window of small models such as gpt-4o-mini.
+ */
+const SUMMARY_INPUT_TOKENS = 24_000;
+
+/**
+ * Per-model overrides of the default budget. History is capped well below
+ * the context window to keep long chats cheap; raise it for larger models.
+ */
+export const MODEL_HISTORY_BUDGETS: Record<string, Partial<HistoryBudget>> = {
+  "gpt-4o": { contextWindow: 128_000, historyTokens: 16_000 },
+  "gpt-4o-mini": { contextWindow: 128_000, historyTokens: 24_000 },
+  "gpt-4.1": { contextWindow: 1_000_000, historyTokens: 32_000, recentTurns: 10 },
+  "gpt-4-turbo": { contextWindow: 128_000, historyTokens: 16_000 },
+  "gpt-3.5-turbo": { contextWindow: 16_385, historyTokens: 4_000, recentTurns: 4, summaryTokens: 500 },
+};
+
+/**
+ * The history budget for a model: the defaults, the model's entry in
+ * MODEL_HISTORY_BUDGETS, then CHAT_HISTORY_TOKENS and CHAT_RECENT_TURNS.
+ */
+export function getHistoryBudget(
+  model: string,
+  env: Record<string, string | undefined> = process.env
+): HistoryBudget {
+  const budget = { ...DEFAULT_HISTORY_BUDGET, ...MODEL_HISTORY_BUDGETS[model] };
+  const historyTokens = parseInt(env.CHAT_HISTORY_TOKENS || "", 10);
+  const recentTurns = parseInt(env.CHAT_RECENT_TURNS || "", 10);
+
+  return {
+    ...budget,
+    historyTokens: historyTokens > 0 ? historyTokens : budget.historyTokens,
+    recentTurns: recentTurns > 0 ? recentTurns : budget.recentTurns,
+  };
+}
+
+/**
+ * What was left out of the history sent to the model.
+ */
+export interface HistoryReport {
+  /** Saved messages before the new one */
+  totalMessages: number;
+  /** Messages sent verbatim */
+  keptMessages: number;
+  /** Older messages represented only by the chat summary */
+  summarizedMessages: number;
+  /** Kept messages whose tool calls and results were left out to fit */
+  strippedToolMessages: number;
+  /** Tokens of the verbatim history */
+  historyTokens: number;
+  /** Tokens the verbatim history could use this turn */
+  budgetTokens: number;
+}
+
+export interface HistoryWindow {
+  /** Recent messages to send verbatim, oldest first */
+  messages: Message[];
+  /** Older messages that did not fit, oldest first */
+  overflow: Message[];
+  report: HistoryReport;
+}
+
+/**
+ * Approximate tokens of a message as sent to the model: its text plus the
+ * arguments and results of its tool calls.
+ */
+export function messageTokens(message: Message): number {
+  const toolTokens = toolCalls(message).reduce(
+    (sum, call) =>
+      sum + countTokens(JSON.stringify(call.args ?? {})) + countTokens(JSON.stringify(call.result ?? null)),
+    0
+  );
+  // A few tokens of per-message framing
+  return 4 + countTokens(message.content) + toolTokens;
+}
+
+function toolCalls(message: Message): Array<{ toolName: string; args?: unknown; result?: unknown }> {
+  if (message.parts) {
+    return message.parts.flatMap((part) =>
+      part.type === "tool-invocation"
+        ? [{ ...part.toolInvocation, result: "result" in part.toolInvocation ? part.toolInvocation.result : undefined }]
+        : []
+    );
+  }
+  return (message.toolInvocations ?? []).map((invocation) => ({
+    ...invocation,
+    result: "result" in invocation ? invocation.result : undefined,
+  }));
+}
+
+/**
+ * The message without its tool calls and results, keeping only its text.
+ */
+function withoutToolCalls(message: Message): Message {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * Split messages into turns, each starting at a user message.
+ */
+function toTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = [];
+  for (const message of messages) {
+    if (message.role === "user" || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Choose the recent history to send verbatim.
+ *
+ * Turns are taken newest first, up to `budget.recentTurns`, while they fit.
+ * A turn too large with its tool results is kept as text only; the first
+ * turn that does not fit even then ends the window, so the kept history is
+ * always a contiguous tail of the chat.
+ *
+ * @param history - Saved messages, oldest first
+ * @param budget - The model's history budget
+ * @param fixedTokens - Tokens always sent: system prompt, summary and new message
+ */
+export function fitHistory(
+  history: Message[],
+  budget: HistoryBudget,
+  fixedTokens: number
+): HistoryWindow {
+  const budgetTokens = Math.max(
+    0,
+    Math.min(
+      budget.historyTokens,
+      budget.contextWindow - budget.reservedOutputTokens - fixedTokens
+    )
+  );
+
+  const turns = toTurns(history);
+  const kept: Message[][] = [];
+  let used = 0;
+  let strippedToolMessages = 0;
+
+  for (let i = turns.length - 1; i >= 0 && kept.length < budget.recentTurns; i--) {
+    const turn = turns[i];
+    const full = turn.reduce((sum, message) => sum + messageTokens(message), 0);
+
+    if (used + full <= budgetTokens) {
+      kept.unshift(turn);
+      used += full;
+      continue;
+    }
+
+    const textOnly = turn.map(withoutToolCalls);
+    const textTokens = textOnly.reduce((sum, message) => sum + messageTokens(message), 0);
+    if (used + textTokens > budgetTokens) {
+      break;
+    }
+    kept.unshift(textOnly);
+    used += textTokens;
+    strippedToolMessages += turn.filter((message) => toolCalls(message).length > 0).length;
+  }
+
+  const messages = kept.flat();
+  const overflow = history.slice(0, history.length - messages.length);
+
+  return {
+    messages,
+    overflow,
+    report: {
+      totalMessages: history.length,
+      keptMessages: messages.length,
+      summarizedMessages: overflow.length,
+      strippedToolMessages,
+      historyTokens: used,
+      budgetTokens,
+    },
+  };
+}
+
+/**
+ * Cut text to at most `maxTokens` tokens.
+ */
+function truncateTokens(text: string, maxTokens: number): string {
+  const tokens = encodeTokens(text);
+  return tokens.length <= maxTokens ? text : decodeTokens(tokens.slice(0, maxTokens));
+}
+
+/**
+ * Plain-text transcript of messages for the summarizer. Tool calls appear as
+ * one line each, without their results.
+ */
+function transcript(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const calls = toolCalls(message).map(
+        (call) => `[${call.toolName} ${JSON.stringify(call.args ?? {})}]`
+      );
+      return [`${message.role.toUpperCase()}: ${message.content}`, ...calls].join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Transcripts of consecutive messages, each small enough for one summarizer
+ * call. A message too long on its own is cut to fit.
+ */
+function transcriptBatches(messages: Message[], maxTokens: number): string[] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let used = 0;
+
+  for (const message of messages) {
+    const entry = truncateTokens(transcript([message]), maxTokens);
+    const tokens = countTokens(entry);
+    if (current.length > 0 && used + tokens > maxTokens) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(entry);
+    used += tokens;
+  }
+  if (current.length > 0) batches.push(current);
+
+  return batches.map((batch) => batch.join("\n\n"));
+}
+
+/**
+ * Fold older messages into a chat's rolling summary. Messages that don't fit
+ * in one call (e.g. after a branch switch drops the summary) are folded in
+ * batches of at most SUMMARY_INPUT_TOKENS, oldest first.
+ *
+ * @param previous - The chat's current summary, if any
+ * @param messages - Messages to add to it, oldest first
+ * @param maxTokens - Longest summary to return
+ * @param model - Model writing the summary (default: CHAT_SUMMARY_MODEL or gpt-4o-mini)
+ * @returns The updated summary, at most `maxTokens` tokens
+ */
+export async function summarizeHistory(
+  previous: string | null,
+  messages: Message[],
+  maxTokens: number,
+  model: string = process.env.CHAT_SUMMARY_MODEL || "gpt-4o-mini"
+): Promise<string> {
+  let summary = previous;
+
+  for (const batch of transcriptBatches(messages, SUMMARY_INPUT_TOKENS)) {
+    const { text } = await generateText({
+      model: openai(model),
+      temperature: 0,
+      maxTokens,
+      prompt: `You maintain the memory of a conversation between a user and an assistant that answers questions from the user's notes.
+
+${summary ? `Summary so far:\n${summary}\n\n` : ""}Earlier messages to add:
+${batch}
+
+Write an updated summary in at most ${Math.floor(maxTokens * 0.7)} words. Keep what later questions may refer to: the user's questions and goals, facts and answers found in their notes (with note names), decisions, names, dates and open questions. Drop pleasantries and tool details.`,
+    });
+    summary = truncateTokens(text.trim(), maxTokens);
+  }
+
+  return summary ?? "";
+}
@@ -48,6 +48,8 @@ export const searchNotesTool = tool({
       const response = {
         success: true,
         results: results.map((chunk) => ({
+          chunkId: chunk.id,
+          documentId: chunk.documentId,
           content: chunk.content,
           source:
             chunk.metadata?.source || chunk.metadata?.fileName || "unknown",
@@ -38,4 +38,32 @@ if (isNeonDatabase) {
   db = drizzleNode(pool, { schema });
 }
 
-export { db };
+/**
+ * Execute a group of write queries atomically.
+ *
+ * The neon-http driver has no interactive transactions, so the queries are
+ * built up front and sent as a single batch (which Neon runs in one
+ * transaction). node-postgres runs them inside a regular transaction.
+ * Queries must not depend on each other's results.
+ *
+ * @param build - Builds the queries against the given connection
+ * @returns The result of each query, in order
+ */
+async function runAtomic(
+  build: (conn: typeof db) => unknown[]
+): Promise<unknown[]> {
+  if (isNeonDatabase) {
+    const queries = build(db);
+    return queries.length > 0 ? db.batch(queries) : [];
+  }
+
+  return db.transaction(async (tx: typeof db) => {
+    const results: unknown[] = [];
+    for (const query of build(tx)) {
+      results.push(await query);
+    }
+    return results;
+  });
+}
+
+export { db, runAtomic };
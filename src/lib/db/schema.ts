@@ -1,16 +1,94 @@
-import { pgTable, text, timestamp, uuid, vector, jsonb, index } from 'drizzle-orm/pg-core';
+import { pgTable, text, timestamp, uuid, jsonb, index, uniqueIndex, integer, customType, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+// pgvector column without a fixed dimension, so different embedding
+// providers can share one table. Rows are always filtered by model before
+// distances are computed.
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return 'vector';
+  },
+  toDriver(value) {
+    return JSON.stringify(value);
+  },
+  fromDriver(value) {
+    return value.slice(1, -1).split(',').map(Number);
+  },
+});
+
+// Postgres full-text search document, only ever written by a generated column
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+// Uploaded or ingested files - one row per note, owning its chunks
+export const documents = pgTable('documents', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: text('user_id').notNull(), // Clerk user ID for multi-tenancy
+  title: text('title').notNull(), // Display name, usually the file name
+  path: text('path').notNull(), // Path relative to the upload/ingest root, unique per user
+  contentHash: text('content_hash').notNull(), // SHA-256 of the raw file contents
+  mimeType: text('mime_type').notNull().default('text/markdown'),
+  size: integer('size').notNull(), // File size in bytes
+  chunkingStrategy: text('chunking_strategy').notNull().default('markdown-section'),
+  chunkingParams: jsonb('chunking_params'), // Token sizes etc. used to chunk the current version
+  metadata: jsonb('metadata'), // Parsed frontmatter: tags, date, author, project, aliases
+  sourceType: text('source_type', { enum: ['upload', 'ingest', 'chat', 'chat-import'] }).notNull().default('upload'), // How the note was added
+  createdAt: timestamp('created_at').defaultNow(),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  index('documentUserIdx').on(table.userId),
+  uniqueIndex('documentUserPathIdx').on(table.userId, table.path),
+]);
+
+// Parent sections of a document (a heading section, or the whole note if
+// short). Small child chunks in embeddings are matched; their parent
+// section is returned as context.
+export const documentSections = pgTable('document_sections', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: text('user_id').notNull(), // Clerk user ID for multi-tenancy
+  documentId: uuid('document_id').notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  sectionIndex: integer('section_index').notNull(), // Position in the document
+  content: text('content').notNull(),
+  contentHash: text('content_hash').notNull(), // SHA-256 of content, so unchanged sections keep their id
+  breadcrumb: text('breadcrumb').notNull().default(''), // Headings the section sits under, e.g. "Project > Q3"
+  startOffset: integer('start_offset').notNull(), // Character range in the source file
+  endOffset: integer('end_offset').notNull(),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  index('sectionDocumentIdx').on(table.documentId),
+]);
 
 export const embeddings = pgTable('embeddings', {
   id: uuid('id').defaultRandom().primaryKey(),
   userId: text('user_id').notNull(), // Clerk user ID for multi-tenancy
+  documentId: uuid('document_id').notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  parentId: uuid('parent_id').references(() => documentSections.id, { onDelete: 'set null' }), // Section returned as context for this chunk
   content: text('content').notNull(),
-  embedding: vector('embedding', { dimensions: 1536 }), // text-embedding-3-small
-  metadata: jsonb('metadata'), // Source, filename, etc.
+  contentHash: text('content_hash').notNull(), // SHA-256 of the embedded text, for incremental re-ingestion
+  embedding: vector('embedding'),
+  embeddingProvider: text('embedding_provider').notNull(), // e.g. openai, openai-compatible, local
+  embeddingModel: text('embedding_model').notNull(), // e.g. text-embedding-3-small
+  embeddingDimensions: integer('embedding_dimensions').notNull(),
+  metadata: jsonb('metadata'), // Source, filename, position, plus the document's frontmatter metadata
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`to_tsvector('english', content)`), // Keyword search over content
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => [
-  index('embeddingIndex').using('hnsw', table.embedding.op('vector_cosine_ops')),
+  // HNSW needs a fixed dimension: index the 1536-d rows (text-embedding-3-small).
+  // Add a similar partial index for any other dimension used in production.
+  index('embeddingIndex')
+    .using('hnsw', sql`(${table.embedding}::vector(1536)) vector_cosine_ops`)
+    .where(sql`${table.embeddingDimensions} = 1536`),
+  index('embeddingModelIdx').on(table.embeddingProvider, table.embeddingModel),
   index('embeddingUserIdx').on(table.userId),
+  index('embeddingDocumentIdx').on(table.documentId),
+  index('embeddingDocumentHashIdx').on(table.documentId, table.contentHash),
+  index('embeddingParentIdx').on(table.parentId),
+  index('embeddingMetadataIdx').using('gin', sql`${table.metadata} jsonb_path_ops`),
+  index('embeddingSearchIdx').using('gin', table.searchVector),
 ]);
 
 // Chat conversations - one per user interaction session
@@ -18,20 +96,54 @@ export const chats = pgTable('chats', {
   id: uuid('id').defaultRandom().primaryKey(),
   userId: text('user_id').notNull(), // Clerk user ID
   title: text('title').notNull().default('New Chat'),
+  summary: text('summary'), // Rolling summary of turns no longer sent verbatim
+  summaryThrough: timestamp('summary_through'), // createdAt of the last message in the summary
+  activeMessageId: uuid('active_message_id').references((): AnyPgColumn => chatMessages.id, { onDelete: 'set null' }), // Last message of the branch shown
+  importSource: text('import_source'), // Export format an imported chat came from, e.g. chatgpt
+  importId: text('import_id'), // The conversation's id in that export, so re-imports skip it
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
 }, (table) => [
   index('chatUserIdx').on(table.userId),
+  uniqueIndex('chatImportIdx').on(table.userId, table.importSource, table.importId),
 ]);
 
 // Chat messages - belong to a specific chat
 export const chatMessages = pgTable('chat_messages', {
   id: uuid('id').defaultRandom().primaryKey(),
   chatId: uuid('chat_id').notNull().references(() => chats.id, { onDelete: 'cascade' }),
+  parentMessageId: uuid('parent_message_id').references((): AnyPgColumn => chatMessages.id, { onDelete: 'cascade' }), // Message this one follows; siblings are branches
   role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
   content: text('content').notNull(),
   sources: jsonb('sources'), // Parsed sources from the response
+  toolInvocations: jsonb('tool_invocations'), // Tool calls of replies saved before parts
+  parts: jsonb('parts'), // Text, tool calls and tool results of an assistant reply, in step order
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`to_tsvector('english', content)`), // Chat history search
+  // Optional, for semantic chat search (CHAT_MESSAGE_EMBEDDINGS=true)
+  embedding: vector('embedding'),
+  embeddingProvider: text('embedding_provider'),
+  embeddingModel: text('embedding_model'),
+  embeddingDimensions: integer('embedding_dimensions'),
   createdAt: timestamp('created_at').defaultNow(),
 }, (table) => [
   index('messagesChatIdx').on(table.chatId),
+  index('messagesParentIdx').on(table.parentMessageId),
+  index('messageSearchIdx').using('gin', table.searchVector),
+]);
+
+// Read-only links to a chat. A link shows the branch up to the message that
+// was shown when it was made; later messages stay private.
+export const chatShares = pgTable('chat_shares', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  chatId: uuid('chat_id').notNull().references(() => chats.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull(), // Clerk user ID of the owner who made the link
+  token: text('token').notNull(), // Random URL-safe secret in the link
+  messageId: uuid('message_id').notNull().references(() => chatMessages.id, { onDelete: 'cascade' }), // Last shared message
+  includedChunkIds: jsonb('included_chunk_ids').$type<string[]>().notNull().default([]), // Cited chunks whose text is shown
+  expiresAt: timestamp('expires_at'),
+  revokedAt: timestamp('revoked_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+  uniqueIndex('shareTokenIdx').on(table.token),
+  index('shareChatIdx').on(table.chatId),
 ]);
@@ -0,0 +1,580 @@
+/**
+ * Markdown-structure-aware chunking shared by the upload route and the ingest script.
+ * Other chunking strategies (fixed-token, sentence, semantic) live in
+ * chunkingStrategies.ts and reuse the parsing helpers exported here.
+ *
+ * The text is parsed into blocks (headings, fenced code, tables, lists,
+ * blockquotes, paragraphs). Chunks never cross a heading boundary, code blocks
+ * and tables are kept intact where possible, and each chunk carries the
+ * breadcrumb of headings it sits under (e.g. "Project > Q3 > Risks").
+ */
+
+export interface MarkdownChunk {
+  /** Chunk text as stored and shown to the model */
+  content: string;
+  /** Text that gets embedded: the breadcrumb followed by the content */
+  embeddingText: string;
+  /** Headings the chunk sits under, outermost first */
+  headingPath: string[];
+  /** headingPath joined with " > " (empty for text before the first heading) */
+  breadcrumb: string;
+  /** Character range of the chunk in the source text */
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface ChunkOptions {
+  /** Target maximum chunk size (default: 1000 characters) */
+  chunkSize?: number;
+  /** Amount of trailing text repeated at the start of the next chunk in a section (default: 200) */
+  chunkOverlap?: number;
+  /**
+   * Code blocks and tables up to this size are never split (default: 4 x chunkSize).
+   * Larger ones are split on line boundaries, re-opening fences and repeating table headers.
+   */
+  maxBlockSize?: number;
+  /** Measures text size (default: character count) */
+  lengthFunction?: (text: string) => number;
+  /** Added to every offset, e.g. the length of stripped frontmatter */
+  offset?: number;
+}
+
+type BlockType = "heading" | "code" | "table" | "list" | "quote" | "paragraph";
+
+interface Block {
+  type: BlockType;
+  text: string;
+  start: number;
+  end: number;
+  /** Heading level (1-6), only for headings */
+  level?: number;
+  /** Heading text, only for headings */
+  title?: string;
+  /** False when the text was rebuilt (e.g. a re-fenced code piece) rather than sliced from the source */
+  verbatim: boolean;
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})/;
+const ATX_HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SETEXT_RE = /^\s{0,3}(=+|-+)\s*$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+const LIST_ITEM_RE = /^\s*([-*+]|\d+[.)])\s+/;
+const QUOTE_RE = /^\s{0,3}>/;
+const SENTENCE_BOUNDARY_RE = /(?<=[.!?])\s+|(?<=[。！？])/;
+
+export const BREADCRUMB_SEPARATOR = " > ";
+
+/**
+ * Remove a leading YAML frontmatter block.
+ *
+ * @returns The frontmatter source (without the --- fences, or null if there is
+ *   none), the remaining body and the body's offset in the original text
+ */
+export function stripFrontmatter(text: string): {
+  frontmatter: string | null;
+  body: string;
+  offset: number;
+} {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { frontmatter: null, body: text, offset: 0 };
+  }
+  return {
+    frontmatter: match[1],
+    body: text.slice(match[0].length),
+    offset: match[0].length,
+  };
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf("\n", start);
+    const end = newline === -1 ? text.length : newline;
+    lines.push({ text: text.slice(start, end).replace(/\r$/, ""), start, end });
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+  return lines;
+}
+
+const isBlank = (line: Line) => line.text.trim() === "";
+
+function isTableStart(lines: Line[], i: number): boolean {
+  return (
+    i + 1 < lines.length &&
+    lines[i].text.includes("|") &&
+    TABLE_SEPARATOR_RE.test(lines[i + 1].text) &&
+    lines[i + 1].text.includes("-")
+  );
+}
+
+/**
+ * Parse markdown into a flat list of top-level blocks with source offsets.
+ */
+export function parseBlocks(text: string): Block[] {
+  const lines = splitLines(text);
+  const blocks: Block[] = [];
+  const makeBlock = (
+    type: BlockType,
+    from: number,
+    to: number,
+    extra: Partial<Block> = {}
+  ): Block => {
+    const blockText = text.slice(lines[from].start, lines[to].end).replace(/\s+$/, "");
+    return {
+      type,
+      start: lines[from].start,
+      end: lines[from].start + blockText.length,
+      text: blockText,
+      verbatim: true,
+      ...extra,
+    };
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block: runs until a closing fence of the same kind (or EOF)
+    const fence = line.text.match(FENCE_RE);
+    if (fence) {
+      const marker = fence[1];
+      let j = i + 1;
+      while (
+        j < lines.length &&
+        !new RegExp(`^\\s{0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}\\s*$`).test(lines[j].text)
+      ) {
+        j++;
+      }
+      const last = Math.min(j, lines.length - 1);
+      blocks.push(makeBlock("code", i, last));
+      i = last + 1;
+      continue;
+    }
+
+    const heading = line.text.match(ATX_HEADING_RE);
+    if (heading) {
+      blocks.push(
+        makeBlock("heading", i, i, {
+          level: heading[1].length,
+          title: heading[2].trim(),
+        })
+      );
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      let j = i + 2;
+      while (j < lines.length && !isBlank(lines[j]) && lines[j].text.includes("|")) {
+        j++;
+      }
+      blocks.push(makeBlock("table", i, j - 1));
+      i = j;
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line.text)) {
+      // A list continues through blank lines while the next line is another
+      // item or indented continuation text
+      let j = i + 1;
+      while (j < lines.length) {
+        if (isBlank(lines[j])) {
+          const next = lines[j + 1];
+          if (next && !isBlank(next) && (LIST_ITEM_RE.test(next.text) || /^\s{2,}/.test(next.text))) {
+            j++;
+            continue;
+          }
+          break;
+        }
+        if (FENCE_RE.test(lines[j].text) && !/^\s{2,}/.test(lines[j].text)) break;
+        if (ATX_HEADING_RE.test(lines[j].text)) break;
+        j++;
+      }
+      blocks.push(makeBlock("list", i, j - 1));
+      i = j;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line.text)) {
+      let j = i + 1;
+      while (j < lines.length && QUOTE_RE.test(lines[j].text)) j++;
+      blocks.push(makeBlock("quote", i, j - 1));
+      i = j;
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block starts
+    let j = i + 1;
+    while (
+      j < lines.length &&
+      !isBlank(lines[j]) &&
+      !FENCE_RE.test(lines[j].text) &&
+      !ATX_HEADING_RE.test(lines[j].text) &&
+      !QUOTE_RE.test(lines[j].text) &&
+      !isTableStart(lines, j)
+    ) {
+      // Setext heading: a single paragraph line underlined with === or ---
+      if (j === i + 1 && SETEXT_RE.test(lines[j].text)) break;
+      j++;
+    }
+    if (j === i + 1 && j < lines.length && SETEXT_RE.test(lines[j].text)) {
+      blocks.push(
+        makeBlock("heading", i, j, {
+          level: lines[j].text.trim().startsWith("=") ? 1 : 2,
+          title: line.text.trim(),
+        })
+      );
+      i = j + 1;
+      continue;
+    }
+    blocks.push(makeBlock("paragraph", i, j - 1));
+    i = j;
+  }
+
+  return blocks;
+}
+
+/**
+ * Cut text with no usable word boundary (CJK, long URLs) into the longest
+ * pieces that fit, without splitting a character.
+ */
+function splitRun(text: string, maxSize: number, length: (s: string) => number): string[] {
+  const chars = Array.from(text);
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < chars.length) {
+    const fits = (end: number) => length(chars.slice(start, end).join("")) <= maxSize;
+    // Double the piece until it no longer fits, then binary search the edge.
+    // A piece always takes at least one character.
+    let lo = start + 1;
+    let hi = chars.length + 1;
+    for (let step = 1; lo + step <= chars.length; step *= 2) {
+      if (!fits(lo + step)) {
+        hi = lo + step;
+        break;
+      }
+      lo += step;
+    }
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (fits(mid)) lo = mid;
+      else hi = mid;
+    }
+    pieces.push(chars.slice(start, lo).join(""));
+    start = lo;
+  }
+  return pieces;
+}
+
+/**
+ * Split text at sentence boundaries, falling back to word boundaries for
+ * sentences that are still too long, and to character runs where no word
+ * boundary fits.
+ */
+function splitProse(text: string, maxSize: number, length: (s: string) => number): string[] {
+  const pieces: string[] = [];
+  for (const sentence of text.split(SENTENCE_BOUNDARY_RE).filter((s) => s && s.trim())) {
+    if (length(sentence) <= maxSize) {
+      pieces.push(sentence);
+      continue;
+    }
+    let current = "";
+    for (const word of sentence.split(/(\s+)/)) {
+      if (current && length(current + word) > maxSize) {
+        pieces.push(current.trim());
+        current = word.trimStart();
+      } else {
+        current += word;
+      }
+      if (length(current) > maxSize) {
+        const runs = splitRun(current.trim(), maxSize, length);
+        pieces.push(...runs.slice(0, -1));
+        current = runs[runs.length - 1];
+      }
+    }
+    if (current.trim()) pieces.push(current.trim());
+  }
+  return pieces;
+}
+
+/**
+ * Split an oversized code block on line boundaries, re-opening the fence in each piece.
+ */
+function splitCode(text: string, maxSize: number, length: (s: string) => number): string[] {
+  const lines = text.split("\n");
+  const opening = lines[0];
+  const closingLine = lines[lines.length - 1];
+  const hasClosing = lines.length > 1 && FENCE_RE.test(closingLine);
+  const closing = hasClosing ? closingLine : opening.trim().match(FENCE_RE)![1];
+  const body = lines.slice(1, hasClosing ? -1 : undefined);
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  for (const line of body) {
+    if (current.length > 0 && length([opening, ...current, line, closing].join("\n")) > maxSize) {
+      pieces.push([opening, ...current, closing].join("\n"));
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.length > 0) pieces.push([opening, ...current, closing].join("\n"));
+  return pieces;
+}
+
+/**
+ * Split an oversized table into row groups, repeating the header in each piece.
+ */
+function splitTable(text: string, maxSize: number, length: (s: string) => number): string[] {
+  const [header, separator, ...rows] = text.split("\n");
+  const pieces: string[] = [];
+  let current: string[] = [];
+  for (const row of rows) {
+    if (current.length > 0 && length([header, separator, ...current, row].join("\n")) > maxSize) {
+      pieces.push([header, separator, ...current].join("\n"));
+      current = [];
+    }
+    current.push(row);
+  }
+  if (current.length > 0) pieces.push([header, separator, ...current].join("\n"));
+  return pieces;
+}
+
+/**
+ * Split a list on item boundaries (items themselves are kept whole).
+ */
+function splitList(text: string): string[] {
+  const items: string[] = [];
+  for (const line of text.split("\n")) {
+    if (LIST_ITEM_RE.test(line) && !/^\s{2,}/.test(line) && items.length > 0) {
+      items.push(line);
+    } else if (items.length === 0) {
+      items.push(line);
+    } else {
+      items[items.length - 1] += `\n${line}`;
+    }
+  }
+  return items.map((item) => item.replace(/\s+$/, "")).filter(Boolean);
+}
+
+/**
+ * Break a block that exceeds the size limits into smaller blocks with the same offsets.
+ */
+function splitBlock(block: Block, options: Required<ChunkOptions>): Block[] {
+  const { chunkSize, maxBlockSize, lengthFunction: length } = options;
+  let pieces: string[];
+
+  switch (block.type) {
+    case "code":
+      if (length(block.text) <= maxBlockSize) return [block];
+      pieces = splitCode(block.text, chunkSize, length);
+      break;
+    case "table":
+      if (length(block.text) <= maxBlockSize) return [block];
+      pieces = splitTable(block.text, chunkSize, length);
+      break;
+    case "list":
+      if (length(block.text) <= chunkSize) return [block];
+      pieces = splitList(block.text).flatMap((item) =>
+        length(item) <= chunkSize ? [item] : splitProse(item, chunkSize, length)
+      );
+      break;
+    default:
+      if (length(block.text) <= chunkSize) return [block];
+      pieces = splitProse(block.text, chunkSize, length);
+  }
+
+  // Narrow offsets to the piece when it is a verbatim slice of the block
+  let cursor = 0;
+  return pieces.map((piece) => {
+    const index = block.text.indexOf(piece, cursor);
+    if (index === -1) {
+      return { ...block, text: piece, verbatim: false };
+    }
+    cursor = index + piece.length;
+    const start = block.start + index;
+    return { ...block, text: piece, start, end: start + piece.length };
+  });
+}
+
+/**
+ * A span of the source text with its offsets.
+ */
+export interface TextUnit {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into sentences with their source offsets. Paragraph breaks
+ * always end a sentence; fenced code blocks are kept as single units.
+ */
+export function splitSentences(text: string): TextUnit[] {
+  const units: TextUnit[] = [];
+
+  for (const block of parseBlocks(text)) {
+    if (block.type === "code" || block.type === "table") {
+      units.push({ text: block.text, start: block.start, end: block.end });
+      continue;
+    }
+    let cursor = 0;
+    for (const sentence of block.text.split(SENTENCE_BOUNDARY_RE)) {
+      const trimmed = sentence.trim();
+      if (!trimmed) continue;
+      const index = block.text.indexOf(trimmed, cursor);
+      cursor = index + trimmed.length;
+      units.push({
+        text: trimmed,
+        start: block.start + index,
+        end: block.start + index + trimmed.length,
+      });
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Build a lookup from a source offset to the headings in effect at that point.
+ */
+export function headingPathResolver(text: string): (offset: number) => string[] {
+  const marks: Array<{ start: number; path: string[] }> = [];
+  const stack: Array<{ level: number; title: string }> = [];
+
+  for (const block of parseBlocks(text)) {
+    if (block.type !== "heading") continue;
+    while (stack.length > 0 && stack[stack.length - 1].level >= block.level!) {
+      stack.pop();
+    }
+    stack.push({ level: block.level!, title: block.title! });
+    marks.push({ start: block.start, path: stack.map((h) => h.title) });
+  }
+
+  return (offset: number) => {
+    let path: string[] = [];
+    for (const mark of marks) {
+      if (mark.start > offset) break;
+      path = mark.path;
+    }
+    return path;
+  };
+}
+
+/**
+ * Prefix a chunk with its heading breadcrumb, so the embedding knows which
+ * section the text came from.
+ */
+export function withBreadcrumb(content: string, breadcrumb: string): string {
+  return breadcrumb ? `${breadcrumb}\n\n${content}` : content;
+}
+
+/**
+ * Split markdown into structure-aware chunks.
+ *
+ * @param text - Markdown text (frontmatter already removed)
+ * @param options - Size, overlap and offset options
+ * @returns Chunks in document order
+ */
+export function chunkMarkdown(text: string, options: ChunkOptions = {}): MarkdownChunk[] {
+  const chunkSize = options.chunkSize ?? 1000;
+  const resolved: Required<ChunkOptions> = {
+    chunkSize,
+    chunkOverlap: options.chunkOverlap ?? 200,
+    maxBlockSize: options.maxBlockSize ?? chunkSize * 4,
+    lengthFunction: options.lengthFunction ?? ((s: string) => s.length),
+    offset: options.offset ?? 0,
+  };
+  const length = resolved.lengthFunction;
+
+  const chunks: MarkdownChunk[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let current: Block[] = [];
+  let currentHasBody = false;
+
+  const headingPath = () => headings.map((h) => h.title);
+
+  // Join blocks with the whitespace that separates them in the source, so
+  // sentences split out of one paragraph read as that paragraph again
+  const joinBlocks = (blocks: Block[]) =>
+    blocks.reduce((joined, block, k) => {
+      if (k === 0) return block.text;
+      const prev = blocks[k - 1];
+      const contiguous = prev.verbatim && block.verbatim && prev.end <= block.start;
+      const between = contiguous ? text.slice(prev.end, block.start) : "";
+      // Sentences can touch with nothing between them (e.g. after "。")
+      return joined + (contiguous && !between.trim() ? between : "\n\n") + block.text;
+    }, "");
+
+  const flush = (keepOverlap: boolean) => {
+    if (!currentHasBody) {
+      current = [];
+      return;
+    }
+    const content = joinBlocks(current).trim();
+    const path = headingPath();
+    const breadcrumb = path.join(BREADCRUMB_SEPARATOR);
+    chunks.push({
+      content,
+      embeddingText: withBreadcrumb(content, breadcrumb),
+      headingPath: path,
+      breadcrumb,
+      startOffset: current[0].start + resolved.offset,
+      endOffset: current[current.length - 1].end + resolved.offset,
+    });
+
+    // Carry trailing prose blocks into the next chunk of the same section
+    const overlap: Block[] = [];
+    if (keepOverlap && resolved.chunkOverlap > 0) {
+      for (let k = current.length - 1; k > 0; k--) {
+        const block = current[k];
+        if (block.type === "code" || block.type === "table" || block.type === "heading") break;
+        if (length(joinBlocks([block, ...overlap])) > resolved.chunkOverlap) break;
+        overlap.unshift(block);
+      }
+    }
+    current = overlap;
+    currentHasBody = false;
+  };
+
+  for (const block of parseBlocks(text)) {
+    if (block.type === "heading") {
+      flush(false);
+      while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) {
+        headings.pop();
+      }
+      headings.push({ level: block.level!, title: block.title! });
+      current = [block];
+      continue;
+    }
+
+    for (const piece of splitBlock(block, resolved)) {
+      const candidate = joinBlocks([...current, piece]);
+      if (currentHasBody && length(candidate) > chunkSize) {
+        flush(true);
+        // Drop the overlap if it would push this piece over the limit
+        if (length(joinBlocks([...current, piece])) > chunkSize) {
+          current = [];
+        }
+      }
+      current.push(piece);
+      currentHasBody = true;
+    }
+  }
+  flush(false);
+
+  return chunks;
+}
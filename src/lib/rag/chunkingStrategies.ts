@@ -0,0 +1,277 @@
+import { z } from "zod";
+import {
+  BREADCRUMB_SEPARATOR,
+  chunkMarkdown,
+  headingPathResolver,
+  splitSentences,
+  withBreadcrumb,
+  type MarkdownChunk,
+  type TextUnit,
+} from "./chunking";
+import { countTokens, decodeTokens, encodeTokens } from "./tokenizer";
+import {
+  cosineSimilarity,
+  generateEmbeddings,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./embeddings";
+
+export const CHUNKING_STRATEGIES = [
+  "markdown-section",
+  "fixed-token",
+  "sentence",
+  "semantic-breakpoint",
+] as const;
+
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+/**
+ * Chunking parameters. Sizes are in tokens (cl100k_base), not characters.
+ * Numbers are coerced so form fields and CLI flags can be parsed directly.
+ */
+export const chunkingConfigSchema = z
+  .object({
+    strategy: z.enum(CHUNKING_STRATEGIES).default("markdown-section"),
+    chunkSize: z.coerce.number().int().min(32).max(8000).default(256),
+    chunkOverlap: z.coerce.number().int().min(0).default(32),
+    // semantic-breakpoint: split where the distance between adjacent
+    // sentences is above this percentile of all distances in the note
+    breakpointPercentile: z.coerce.number().min(50).max(99).default(95),
+  })
+  .refine((config) => config.chunkOverlap < config.chunkSize, {
+    message: "chunkOverlap must be smaller than chunkSize",
+    path: ["chunkOverlap"],
+  });
+
+export type ChunkingConfig = z.infer<typeof chunkingConfigSchema>;
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = chunkingConfigSchema.parse({});
+
+/**
+ * Validate chunking parameters, filling in defaults for missing values.
+ * Empty strings and nulls count as missing.
+ *
+ * @throws ZodError if a value is invalid
+ */
+export function parseChunkingConfig(
+  input: Record<string, unknown> = {}
+): ChunkingConfig {
+  const provided = Object.fromEntries(
+    Object.entries(input).filter(
+      ([, value]) => value !== undefined && value !== null && value !== ""
+    )
+  );
+  return chunkingConfigSchema.parse(provided);
+}
+
+interface ChunkContext {
+  text: string;
+  offset: number;
+  headingPathAt: (offset: number) => string[];
+}
+
+function toChunk(context: ChunkContext, unit: TextUnit): MarkdownChunk {
+  const headingPath = context.headingPathAt(unit.start);
+  const breadcrumb = headingPath.join(BREADCRUMB_SEPARATOR);
+  return {
+    content: unit.text,
+    embeddingText: withBreadcrumb(unit.text, breadcrumb),
+    headingPath,
+    breadcrumb,
+    startOffset: unit.start + context.offset,
+    endOffset: unit.end + context.offset,
+  };
+}
+
+/**
+ * Cut a span into consecutive token windows, locating each window in the source.
+ */
+function tokenWindows(
+  text: string,
+  base: number,
+  size: number,
+  overlap: number
+): TextUnit[] {
+  const tokens = encodeTokens(text);
+  const windows: TextUnit[] = [];
+
+  // Character offset of a token boundary, decoded from an earlier boundary
+  // (token index and character offset) so a window costs its own length, not
+  // the whole prefix. A boundary inside a multi-byte character (the span
+  // decodes to a replacement character) moves forward.
+  const charOffset = (
+    index: number,
+    [fromToken, fromChar]: [number, number]
+  ): [number, number] => {
+    let boundary = Math.max(fromToken, Math.min(index, tokens.length));
+    let span = decodeTokens(tokens.slice(fromToken, boundary));
+    while (boundary < tokens.length && span.endsWith("\uFFFD")) {
+      boundary++;
+      span = decodeTokens(tokens.slice(fromToken, boundary));
+    }
+    return [boundary, fromChar + span.length];
+  };
+
+  let [start, startChar] = [0, 0];
+  while (start < tokens.length) {
+    const [end, endChar] = charOffset(start + size, [start, startChar]);
+    const raw = text.slice(startChar, endChar);
+    const trimmed = raw.trim();
+    if (trimmed) {
+      const at = startChar + (raw.length - raw.trimStart().length);
+      windows.push({ text: trimmed, start: base + at, end: base + at + trimmed.length });
+    }
+    if (end >= tokens.length) break;
+    [start, startChar] = charOffset(Math.max(start + 1, end - overlap), [start, startChar]);
+  }
+
+  return windows;
+}
+
+/**
+ * Greedily pack consecutive units into chunks of at most `size` tokens,
+ * repeating trailing units of up to `overlap` tokens at the start of the next
+ * chunk. Units larger than `size` are cut into token windows.
+ */
+function packUnits(
+  text: string,
+  units: TextUnit[],
+  size: number,
+  overlap: number
+): TextUnit[] {
+  const pieces = units.flatMap((unit) =>
+    countTokens(unit.text) > size
+      ? tokenWindows(unit.text, unit.start, size, overlap)
+      : [unit]
+  );
+  const join = (group: TextUnit[]): TextUnit => ({
+    text: text.slice(group[0].start, group[group.length - 1].end),
+    start: group[0].start,
+    end: group[group.length - 1].end,
+  });
+
+  const chunks: TextUnit[] = [];
+  let current: TextUnit[] = [];
+  let hasNew = false;
+
+  for (const piece of pieces) {
+    if (current.length > 0 && countTokens(join([...current, piece]).text) > size) {
+      if (hasNew) chunks.push(join(current));
+      const carried: TextUnit[] = [];
+      for (let k = current.length - 1; k > 0; k--) {
+        if (countTokens(join([current[k], ...carried]).text) > overlap) break;
+        carried.unshift(current[k]);
+      }
+      current =
+        carried.length > 0 && countTokens(join([...carried, piece]).text) <= size
+          ? carried
+          : [];
+      hasNew = false;
+    }
+    current.push(piece);
+    hasNew = true;
+  }
+  if (current.length > 0 && hasNew) chunks.push(join(current));
+
+  return chunks;
+}
+
+/**
+ * Value at the given percentile (0-100) using linear interpolation.
+ */
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const low = Math.floor(rank);
+  const high = Math.ceil(rank);
+  return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+}
+
+/**
+ * Group sentences into topical chunks: embed every sentence and start a new
+ * chunk where the cosine distance to the previous sentence is unusually high.
+ */
+async function semanticGroups(
+  sentences: TextUnit[],
+  breakpointPercentile: number,
+  provider: EmbeddingProvider
+): Promise<TextUnit[][]> {
+  if (sentences.length < 3) {
+    return sentences.length > 0 ? [sentences] : [];
+  }
+
+  const vectors = await generateEmbeddings(
+    sentences.map((sentence) => sentence.text),
+    provider
+  );
+  const distances = vectors
+    .slice(1)
+    .map((vector, i) => 1 - cosineSimilarity(vectors[i], vector));
+  const threshold = percentile(distances, breakpointPercentile);
+
+  const groups: TextUnit[][] = [[sentences[0]]];
+  distances.forEach((distance, i) => {
+    if (distance > threshold) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(sentences[i + 1]);
+  });
+  return groups;
+}
+
+/**
+ * Chunk a markdown body with the configured strategy.
+ *
+ * @param text - Markdown text (frontmatter already removed)
+ * @param config - Strategy and token sizes
+ * @param options - Offset of `text` in the source file, and the embedding
+ *   provider used by the semantic-breakpoint strategy
+ * @returns Chunks in document order, each with its heading breadcrumb
+ */
+export async function chunkWithStrategy(
+  text: string,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG,
+  options: { offset?: number; provider?: EmbeddingProvider } = {}
+): Promise<MarkdownChunk[]> {
+  const offset = options.offset ?? 0;
+  const { chunkSize, chunkOverlap } = config;
+
+  if (config.strategy === "markdown-section") {
+    return chunkMarkdown(text, {
+      chunkSize,
+      chunkOverlap,
+      lengthFunction: countTokens,
+      offset,
+    });
+  }
+
+  const context: ChunkContext = {
+    text,
+    offset,
+    headingPathAt: headingPathResolver(text),
+  };
+  let units: TextUnit[];
+
+  switch (config.strategy) {
+    case "fixed-token": {
+      const start = text.length - text.trimStart().length;
+      units = tokenWindows(text.trim(), start, chunkSize, chunkOverlap);
+      break;
+    }
+    case "sentence":
+      units = packUnits(text, splitSentences(text), chunkSize, chunkOverlap);
+      break;
+    case "semantic-breakpoint": {
+      const groups = await semanticGroups(
+        splitSentences(text),
+        config.breakpointPercentile,
+        options.provider ?? getEmbeddingProvider()
+      );
+      // Topic boundaries need no overlap; oversized groups are re-packed
+      units = groups.flatMap((group) => packUnits(text, group, chunkSize, 0));
+      break;
+    }
+  }
+
+  return units.map((unit) => toChunk(context, unit));
+}
@@ -0,0 +1,183 @@
+import { db } from "@/lib/db";
+import { embeddings } from "@/lib/db/schema";
+import { and, eq, or, sql } from "drizzle-orm";
+import type { SimilarChunk } from "./vectorStore";
+
+/**
+ * A contiguous passage around a retrieved chunk.
+ */
+export interface ExpandedContext {
+  /** The hit and its neighbours merged, with overlapping text kept once */
+  content: string;
+  /** Character range of the passage in the source document (null for chunks stored without offsets) */
+  startOffset: number | null;
+  endOffset: number | null;
+  /** Chunks merged into the passage, in document order */
+  chunkIds: string[];
+  firstChunkIndex: number;
+  lastChunkIndex: number;
+}
+
+interface NeighborChunk {
+  id: string;
+  documentId: string;
+  content: string;
+  metadata: Record<string, unknown> | null;
+}
+
+/**
+ * Longest overlap searched for when chunks carry no offsets.
+ */
+const MAX_TEXT_OVERLAP = 2000;
+
+/**
+ * Shortest suffix/prefix match treated as real overlap rather than coincidence.
+ */
+const MIN_TEXT_OVERLAP = 16;
+
+function numberField(metadata: Record<string, unknown> | null, key: string): number | null {
+  const value = metadata?.[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Characters at the start of `next` that repeat the end of `passage`.
+ * Uses the chunks' source offsets when available, and otherwise looks for the
+ * longest suffix of the passage that the next chunk starts with.
+ */
+function overlapLength(
+  passage: string,
+  passageEnd: number | null,
+  next: string,
+  nextStart: number | null
+): number {
+  if (passageEnd !== null && nextStart !== null) {
+    const overlap = passageEnd - nextStart;
+    if (overlap <= 0) {
+      return 0;
+    }
+    if (passage.endsWith(next.slice(0, overlap))) {
+      return overlap;
+    }
+  }
+
+  const longest = Math.min(MAX_TEXT_OVERLAP, passage.length, next.length);
+  for (let length = longest; length >= MIN_TEXT_OVERLAP; length--) {
+    if (passage.endsWith(next.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Merge consecutive chunks of one document into a single passage.
+ *
+ * @param chunks - Chunks in document order
+ */
+export function mergeChunks(chunks: NeighborChunk[]): ExpandedContext {
+  let content = "";
+  let startOffset: number | null = null;
+  let endOffset: number | null = null;
+
+  chunks.forEach((chunk, index) => {
+    const start = numberField(chunk.metadata, "startOffset");
+    const end = numberField(chunk.metadata, "endOffset");
+
+    if (index === 0) {
+      content = chunk.content;
+      startOffset = start;
+      endOffset = end;
+      return;
+    }
+
+    const overlap = overlapLength(content, endOffset, chunk.content, start);
+    // Separate chunks that neither overlap nor touch in the source
+    const gap = overlap === 0 && !(endOffset !== null && start !== null && start <= endOffset);
+    content += (gap ? "\n\n" : "") + chunk.content.slice(overlap);
+    endOffset = end !== null && endOffset !== null ? Math.max(endOffset, end) : null;
+    startOffset = start !== null ? startOffset : null;
+  });
+
+  return {
+    content,
+    startOffset,
+    endOffset,
+    chunkIds: chunks.map((chunk) => chunk.id),
+    firstChunkIndex: numberField(chunks[0].metadata, "chunkIndex") ?? 0,
+    lastChunkIndex: numberField(chunks[chunks.length - 1].metadata, "chunkIndex") ?? 0,
+  };
+}
+
+/**
+ * Attach to each hit a passage made of the hit plus up to `radius` chunks
+ * before and after it in the same document. Hits without a chunkIndex get a
+ * passage of just themselves; hits that already carry their parent section
+ * are left as they are.
+ *
+ * @param hits - Retrieved chunks
+ * @param radius - Neighbouring chunks to include on each side
+ * @param userId - Optional user ID, so only the user's chunks are read
+ * @returns The hits, with `context` set on those without a parent
+ */
+export async function expandWithNeighbors(
+  hits: SimilarChunk[],
+  radius: number,
+  userId?: string
+): Promise<SimilarChunk[]> {
+  const chunkIndex = sql<number>`(${embeddings.metadata} ->> 'chunkIndex')::int`;
+  const windows = hits.flatMap((hit) => {
+    const index = numberField(hit.metadata, "chunkIndex");
+    return index === null || hit.parent
+      ? []
+      : [
+          and(
+            eq(embeddings.documentId, hit.documentId),
+            sql`${chunkIndex} between ${index - radius} and ${index + radius}`
+          ),
+        ];
+  });
+
+  const neighbors: NeighborChunk[] =
+    radius > 0 && windows.length > 0
+      ? await db
+          .select({
+            id: embeddings.id,
+            documentId: embeddings.documentId,
+            content: embeddings.content,
+            metadata: embeddings.metadata,
+          })
+          .from(embeddings)
+          .where(
+            and(or(...windows), userId ? eq(embeddings.userId, userId) : undefined)
+          )
+      : [];
+
+  return hits.map((hit) => {
+    if (hit.parent) {
+      return hit;
+    }
+    const index = numberField(hit.metadata, "chunkIndex");
+    const window =
+      index === null
+        ? [hit]
+        : neighbors
+            .filter((chunk) => {
+              const neighborIndex = numberField(chunk.metadata, "chunkIndex");
+              return (
+                chunk.documentId === hit.documentId &&
+                neighborIndex !== null &&
+                Math.abs(neighborIndex - index) <= radius
+              );
+            })
+            .sort(
+              (a, b) =>
+                numberField(a.metadata, "chunkIndex")! - numberField(b.metadata, "chunkIndex")!
+            );
+
+    return {
+      ...hit,
+      context: mergeChunks(window.length > 0 ? window : [hit]),
+    };
+  });
+}
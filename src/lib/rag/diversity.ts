@@ -0,0 +1,87 @@
+import { cosineSimilarity } from "./embeddings";
+
+export interface DiversityOptions {
+  /**
+   * Maximal Marginal Relevance trade-off between relevance (1) and novelty
+   * (0). Leave undefined to keep the candidates' order.
+   */
+  mmrLambda?: number;
+  /** At most this many results from the same document */
+  maxPerDocument?: number;
+}
+
+export interface DiversityCandidate {
+  id: string;
+  documentId: string;
+}
+
+/**
+ * Pick up to `topK` candidates, trading relevance against redundancy.
+ *
+ * Without MMR, candidates are taken in order, skipping documents that hit
+ * `maxPerDocument`. With MMR, each step picks the candidate maximizing
+ * `lambda * relevance - (1 - lambda) * max similarity to anything already
+ * picked`, so near-duplicate chunks (e.g. overlapping neighbours from the
+ * same note) are passed over in favour of new information.
+ *
+ * @param candidates - Candidates, most relevant first
+ * @param topK - Number of candidates to pick
+ * @param relevance - Relevance of a candidate to the query (0-1)
+ * @param vectors - Embedding per candidate id, used for MMR redundancy
+ * @param options - MMR lambda and per-document cap
+ * @returns The picked candidates in pick order
+ */
+export function selectDiverse<T extends DiversityCandidate>(
+  candidates: T[],
+  topK: number,
+  relevance: (candidate: T) => number,
+  vectors: Map<string, number[]>,
+  options: DiversityOptions = {}
+): T[] {
+  const { mmrLambda, maxPerDocument } = options;
+  const perDocument = new Map<string, number>();
+  const allowed = (candidate: T) =>
+    maxPerDocument === undefined ||
+    (perDocument.get(candidate.documentId) ?? 0) < maxPerDocument;
+
+  const selected: T[] = [];
+  const remaining = [...candidates];
+
+  while (selected.length < topK && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const candidate = remaining[i];
+      if (!allowed(candidate)) continue;
+
+      if (mmrLambda === undefined) {
+        bestIndex = i;
+        break;
+      }
+
+      const vector = vectors.get(candidate.id);
+      const redundancy = selected.reduce((max, picked) => {
+        const other = vectors.get(picked.id);
+        // Vectors from different models cannot be compared
+        return vector && other && vector.length === other.length
+          ? Math.max(max, cosineSimilarity(vector, other))
+          : max;
+      }, 0);
+      const score = mmrLambda * relevance(candidate) - (1 - mmrLambda) * redundancy;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+
+    if (bestIndex === -1) break;
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    selected.push(picked);
+    perDocument.set(picked.documentId, (perDocument.get(picked.documentId) ?? 0) + 1);
+  }
+
+  return selected;
+}
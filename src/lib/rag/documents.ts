@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+import { db } from "@/lib/db";
+import { documents, embeddings } from "@/lib/db/schema";
+import { and, count, desc, eq } from "drizzle-orm";
+
+export type Document = typeof documents.$inferSelect;
+
+/** How a document was added: web upload, the ingest script, saved from a chat, or an imported conversation */
+export type DocumentSourceType = Document["sourceType"];
+
+export interface DocumentSummary extends Document {
+  chunkCount: number;
+}
+
+/**
+ * SHA-256 hex digest of a string, used to fingerprint files and chunks.
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Normalize a user-supplied document path: forward slashes, no leading "./" or "/".
+ */
+export function normalizeDocumentPath(path: string): string {
+  return path
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/|\/)+/, "")
+    .replace(/\/{2,}/g, "/");
+}
+
+/**
+ * Find a user's document by its path.
+ */
+export async function findDocumentByPath(
+  userId: string,
+  path: string
+): Promise<Document | null> {
+  const [document] = await db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.userId, userId), eq(documents.path, path)));
+
+  return document ?? null;
+}
+
+/**
+ * Get a document by id, only if it belongs to the user.
+ */
+export async function getDocument(
+  userId: string,
+  documentId: string
+): Promise<Document | null> {
+  const [document] = await db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.id, documentId), eq(documents.userId, userId)));
+
+  return document ?? null;
+}
+
+/**
+ * List a user's documents with their chunk counts, most recently updated first.
+ */
+export async function listDocuments(userId: string): Promise<DocumentSummary[]> {
+  const rows = await db
+    .select({
+      document: documents,
+      chunkCount: count(embeddings.id),
+    })
+    .from(documents)
+    .leftJoin(embeddings, eq(embeddings.documentId, documents.id))
+    .where(eq(documents.userId, userId))
+    .groupBy(documents.id)
+    .orderBy(desc(documents.updatedAt));
+
+  return rows.map((row: { document: Document; chunkCount: number }) => ({
+    ...row.document,
+    chunkCount: Number(row.chunkCount),
+  }));
+}
+
+/**
+ * Delete a document and (via cascade) all of its chunks.
+ *
+ * @returns The deleted document, or null if it does not exist for this user
+ */
+export async function deleteDocument(
+  userId: string,
+  documentId: string
+): Promise<Document | null> {
+  const [deleted] = await db
+    .delete(documents)
+    .where(and(eq(documents.id, documentId), eq(documents.userId, userId)))
+    .returning();
+
+  return deleted ?? null;
+}
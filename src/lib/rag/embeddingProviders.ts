@@ -0,0 +1,203 @@
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import type { EmbeddingModel } from 'ai';
+
+/**
+ * A backend that turns text into fixed-size vectors.
+ * Every stored embedding records the provider id and model that produced it,
+ * so vectors from different models are never compared with each other.
+ */
+export interface EmbeddingProvider {
+  /** Provider identifier, e.g. "openai", "openai-compatible", "local" */
+  id: string;
+  /** Model identifier, e.g. "text-embedding-3-small" */
+  model: string;
+  /** Length of every vector this provider returns */
+  dimensions: number;
+  /** Maximum number of texts accepted by a single embed() call */
+  maxBatchSize: number;
+  /** Embed a batch of texts, returning one vector per input in the same order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_OPENAI_DIMENSIONS = 1536;
+const DEFAULT_LOCAL_DIMENSIONS = 384;
+
+/**
+ * Run a batch through an AI SDK embedding model and validate the output shape.
+ */
+async function embedWithModel(
+  embeddingModel: EmbeddingModel<string>,
+  texts: string[],
+  dimensions: number
+): Promise<number[][]> {
+  const result = await embeddingModel.doEmbed({ values: texts });
+
+  if (!result.embeddings || result.embeddings.length !== texts.length) {
+    throw new Error('Failed to generate embedding');
+  }
+
+  for (const embedding of result.embeddings) {
+    if (embedding.length !== dimensions) {
+      throw new Error(`Expected ${dimensions}-dimensional embedding, got ${embedding.length}`);
+    }
+  }
+
+  return result.embeddings;
+}
+
+/**
+ * OpenAI hosted embeddings (default: text-embedding-3-small, 1536 dimensions).
+ */
+export function createOpenAIEmbeddingProvider(
+  model: string = DEFAULT_OPENAI_MODEL,
+  dimensions: number = DEFAULT_OPENAI_DIMENSIONS
+): EmbeddingProvider {
+  // text-embedding-3 models shorten their vectors to the requested size;
+  // ada-002 rejects the parameter and only produces 1536 dimensions
+  const embeddingModel = openai.embedding(
+    model,
+    model === 'text-embedding-ada-002' ? {} : { dimensions }
+  );
+
+  return {
+    id: 'openai',
+    model,
+    dimensions,
+    maxBatchSize: embeddingModel.maxEmbeddingsPerCall ?? 2048,
+    embed: (texts) => embedWithModel(embeddingModel, texts, dimensions),
+  };
+}
+
+/**
+ * Any server that speaks the OpenAI embeddings API (Ollama, LM Studio, vLLM, TEI, ...).
+ * The dimension cannot be discovered up front, so it must be configured.
+ */
+export function createOpenAICompatibleEmbeddingProvider(options: {
+  baseURL: string;
+  model: string;
+  dimensions: number;
+  apiKey?: string;
+  maxBatchSize?: number;
+}): EmbeddingProvider {
+  const provider = createOpenAI({
+    baseURL: options.baseURL,
+    apiKey: options.apiKey ?? 'not-needed',
+    compatibility: 'compatible',
+  });
+  const embeddingModel = provider.embedding(options.model);
+
+  return {
+    id: 'openai-compatible',
+    model: options.model,
+    dimensions: options.dimensions,
+    maxBatchSize: options.maxBatchSize ?? 64,
+    embed: (texts) => embedWithModel(embeddingModel, texts, options.dimensions),
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash, used to map tokens onto vector buckets.
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedding using the hashing trick.
+ * Unigrams and bigrams are hashed into signed buckets, weighted by log term
+ * frequency and L2-normalized. No network access, so it works for offline
+ * development and tests; quality is lexical rather than semantic.
+ */
+export function hashingEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  const counts = new Map<string, number>();
+  for (let i = 0; i < tokens.length; i++) {
+    counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+    if (i > 0) {
+      const bigram = `${tokens[i - 1]} ${tokens[i]}`;
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+  }
+
+  for (const [feature, count] of counts) {
+    const hash = fnv1a(feature);
+    const bucket = hash % dimensions;
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[bucket] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * In-process hashing embedder for offline dev and tests.
+ */
+export function createLocalEmbeddingProvider(
+  dimensions: number = DEFAULT_LOCAL_DIMENSIONS
+): EmbeddingProvider {
+  return {
+    id: 'local',
+    model: `hashing-bow-${dimensions}`,
+    dimensions,
+    maxBatchSize: 1024,
+    embed: async (texts) => texts.map((text) => hashingEmbedding(text, dimensions)),
+  };
+}
+
+function parseDimensions(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`EMBEDDING_DIMENSIONS must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Build the provider described by the EMBEDDING_* environment variables.
+ *
+ * EMBEDDING_PROVIDER:   openai (default) | openai-compatible | local
+ * EMBEDDING_MODEL:      model id (required for openai-compatible)
+ * EMBEDDING_DIMENSIONS: vector size (required for openai-compatible)
+ * EMBEDDING_BASE_URL:   endpoint for openai-compatible, e.g. http://localhost:11434/v1
+ * EMBEDDING_API_KEY:    optional key for openai-compatible
+ */
+export function createEmbeddingProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): EmbeddingProvider {
+  const name = (env.EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderName;
+  const dimensions = parseDimensions(env.EMBEDDING_DIMENSIONS);
+
+  switch (name) {
+    case 'openai':
+      return createOpenAIEmbeddingProvider(env.EMBEDDING_MODEL || undefined, dimensions);
+    case 'openai-compatible': {
+      if (!env.EMBEDDING_BASE_URL || !env.EMBEDDING_MODEL || !dimensions) {
+        throw new Error(
+          'EMBEDDING_BASE_URL, EMBEDDING_MODEL and EMBEDDING_DIMENSIONS are required for the openai-compatible embedding provider'
+        );
+      }
+      return createOpenAICompatibleEmbeddingProvider({
+        baseURL: env.EMBEDDING_BASE_URL,
+        model: env.EMBEDDING_MODEL,
+        dimensions,
+        apiKey: env.EMBEDDING_API_KEY,
+      });
+    }
+    case 'local':
+      return createLocalEmbeddingProvider(dimensions);
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}"`);
+  }
+}
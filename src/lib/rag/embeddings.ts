@@ -1,30 +1,104 @@
-import { openai } from '@ai-sdk/openai';
+import { createEmbeddingProviderFromEnv, type EmbeddingProvider } from './embeddingProviders';
+
+export type { EmbeddingProvider } from './embeddingProviders';
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the embedding provider configured via EMBEDDING_* environment variables.
+ * The provider is created once and reused for the lifetime of the process.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    activeProvider = createEmbeddingProviderFromEnv();
+  }
+  return activeProvider;
+}
 
 /**
- * Generate an embedding vector for the given text using OpenAI's text-embedding-3-small model.
- * This model produces 1536-dimensional vectors optimized for similarity search.
+ * Override the active embedding provider (e.g. a local provider in scripts or tests).
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Generate an embedding vector for the given text using the active provider.
+ * The vector length always equals the provider's declared dimensions.
  * 
  * @param text - The text to embed
- * @returns A Promise that resolves to a 1536-dimensional number array
+ * @param provider - Provider to use (default: the configured provider)
+ * @returns A Promise that resolves to the embedding vector
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const embeddingModel = openai.embedding('text-embedding-3-small');
-  
-  const result = await embeddingModel.doEmbed({
-    values: [text],
-  });
-
-  if (!result.embeddings || result.embeddings.length === 0 || !result.embeddings[0]) {
+export async function generateEmbedding(
+  text: string,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
+  const [embedding] = await provider.embed([text]);
+
+  if (!embedding) {
     throw new Error('Failed to generate embedding');
   }
 
-  const embedding = result.embeddings[0];
-  
-  if (embedding.length !== 1536) {
-    throw new Error(`Expected 1536-dimensional embedding, got ${embedding.length}`);
+  return embedding;
+}
+
+/**
+ * Number of embedding batches sent to the provider at the same time.
+ */
+const EMBEDDING_CONCURRENCY = Math.max(
+  1,
+  parseInt(process.env.EMBEDDING_CONCURRENCY || '4', 10) || 4
+);
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Generate embeddings for many texts at once.
+ * Texts are split into provider-sized batches which are embedded with bounded
+ * concurrency. Rejects if any batch fails, so callers never see partial output.
+ *
+ * @param texts - The texts to embed
+ * @param provider - Provider to use (default: the configured provider)
+ * @returns One embedding per input text, in the same order
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[][]> {
+  const batches: string[][] = [];
+  for (let i = 0; i < texts.length; i += provider.maxBatchSize) {
+    batches.push(texts.slice(i, i + provider.maxBatchSize));
   }
 
-  return embedding;
+  const results = await mapWithConcurrency(
+    batches,
+    EMBEDDING_CONCURRENCY,
+    (batch) => provider.embed(batch)
+  );
+  return results.flat();
 }
 
 /**
@@ -0,0 +1,109 @@
+import { parse } from "yaml";
+import { stripFrontmatter } from "./chunking";
+
+/**
+ * Typed metadata read from a note's YAML frontmatter. Stored on the document
+ * and copied into the metadata of every chunk, so search can filter on it.
+ */
+export interface NoteMetadata {
+  /** Lower-cased, without a leading "#" */
+  tags?: string[];
+  /** ISO 8601 timestamp (UTC); date-only values become midnight UTC */
+  date?: string;
+  author?: string;
+  project?: string;
+  aliases?: string[];
+}
+
+/**
+ * A list field written as a YAML list, or as a comma/space separated string
+ * (`tags: meeting, q3` or `tags: "#meeting #q3"`).
+ */
+function toStringList(value: unknown, separator: RegExp): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(separator)
+      : [];
+
+  return items
+    .filter((item) => typeof item === "string" || typeof item === "number")
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value).trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a date (YAML timestamp, string or year) to an ISO 8601 string.
+ * A bare number (`date: 2026`) is a year; other numbers are rejected.
+ */
+export function toIsoDate(value: unknown): string | undefined {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 1000 && value <= 9999
+      ? new Date(Date.UTC(value, 0, 1)).toISOString()
+      : undefined;
+  }
+  if (!(value instanceof Date) && typeof value !== "string") {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Parse frontmatter YAML (without the --- fences) into note metadata.
+ * Unknown fields are ignored, and invalid YAML yields empty metadata rather
+ * than failing the upload.
+ */
+export function parseFrontmatter(source: string): NoteMetadata {
+  let data: unknown;
+  try {
+    data = parse(source);
+  } catch (error) {
+    console.warn(
+      "Ignoring invalid frontmatter:",
+      error instanceof Error ? error.message : error
+    );
+    return {};
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return {};
+  }
+
+  const fields = data as Record<string, unknown>;
+  const tags = [
+    ...new Set(
+      toStringList(fields.tags ?? fields.tag, /[,\s]+/).map((tag) =>
+        tag.replace(/^#/, "").toLowerCase()
+      )
+    ),
+  ].filter(Boolean);
+  const aliases = toStringList(fields.aliases ?? fields.alias, /,/);
+
+  const metadata: NoteMetadata = {
+    tags: tags.length > 0 ? tags : undefined,
+    date: toIsoDate(fields.date),
+    author: toText(fields.author),
+    project: toText(fields.project),
+    aliases: aliases.length > 0 ? aliases : undefined,
+  };
+
+  // Drop missing fields so they are not stored as nulls
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined)
+  ) as NoteMetadata;
+}
+
+/**
+ * Read note metadata from the frontmatter of a markdown file, if it has any.
+ */
+export function extractNoteMetadata(content: string): NoteMetadata {
+  const { frontmatter } = stripFrontmatter(content);
+  return frontmatter ? parseFrontmatter(frontmatter) : {};
+}
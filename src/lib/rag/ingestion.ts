@@ -0,0 +1,428 @@
+import { randomUUID } from "crypto";
+import { db, runAtomic } from "@/lib/db";
+import { documentSections, documents, embeddings } from "@/lib/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import {
+  embeddingInsertQueries,
+  prepareEmbeddingRows,
+  textToEmbed,
+  type ChunkInput,
+} from "./vectorStore";
+import { stripFrontmatter } from "./chunking";
+import {
+  chunkWithStrategy,
+  DEFAULT_CHUNKING_CONFIG,
+  parseChunkingConfig,
+  type ChunkingConfig,
+} from "./chunkingStrategies";
+import { getEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import { extractNoteMetadata } from "./frontmatter";
+import {
+  buildSections,
+  PARENT_SECTION_TOKENS,
+  sectionIndexFor,
+} from "./parentSections";
+import {
+  findDocumentByPath,
+  hashContent,
+  normalizeDocumentPath,
+  type DocumentSourceType,
+} from "./documents";
+
+export interface IngestDocumentInput {
+  userId: string;
+  /** Path relative to the upload/ingest root; identifies the document per user */
+  path: string;
+  /** Display name (default: last path segment) */
+  title?: string;
+  /** Raw file contents, used for the content hash and size */
+  content: string;
+  mimeType?: string;
+  /** Pre-built chunks in document order (default: chunk `content` with `chunking`) */
+  chunks?: Array<string | ChunkInput>;
+  /** Chunking strategy and token sizes, recorded on the document (default: markdown-section) */
+  chunking?: Partial<ChunkingConfig>;
+  /** Extra metadata stored on every chunk, on top of the frontmatter metadata */
+  metadata?: Record<string, unknown>;
+  /** How the document was added (default: upload) */
+  sourceType?: DocumentSourceType;
+  /** Embedding provider (default: the configured provider) */
+  provider?: EmbeddingProvider;
+}
+
+export interface IngestChunkCounts {
+  /** Chunks that were newly embedded */
+  added: number;
+  /** Chunks whose text was unchanged and kept their embedding */
+  unchanged: number;
+  /** Chunks that no longer exist in the file and were deleted */
+  removed: number;
+}
+
+export interface IngestDocumentResult {
+  documentId: string;
+  title: string;
+  path: string;
+  chunking: ChunkingConfig;
+  /** True when the document did not exist before */
+  created: boolean;
+  /** True when the file was identical to the stored version and nothing was written */
+  skipped: boolean;
+  chunks: IngestChunkCounts;
+}
+
+interface ExistingChunk {
+  id: string;
+  parentId: string | null;
+  contentHash: string;
+  metadata: unknown;
+  embeddingProvider: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+}
+
+interface ExistingSection {
+  id: string;
+  contentHash: string;
+  sectionIndex: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+/**
+ * Group stored rows by content hash, so repeated texts each find a match.
+ */
+function poolByHash<T extends { contentHash: string }>(rows: T[]): Map<string, T[]> {
+  const pool = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = pool.get(row.contentHash) ?? [];
+    list.push(row);
+    pool.set(row.contentHash, list);
+  }
+  return pool;
+}
+
+/**
+ * JSON with object keys sorted, so metadata read back from jsonb (which
+ * reorders keys) compares equal to freshly built metadata.
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.entries(val as Record<string, unknown>).sort(([a], [b]) =>
+            a.localeCompare(b)
+          )
+        )
+      : val
+  );
+}
+
+/**
+ * Parameters stored in documents.chunking_params, so a later run can tell
+ * whether a document was chunked the same way.
+ */
+function chunkingParams(config: ChunkingConfig): Record<string, unknown> {
+  return {
+    unit: "tokens",
+    chunkSize: config.chunkSize,
+    chunkOverlap: config.chunkOverlap,
+    parentSectionTokens: PARENT_SECTION_TOKENS,
+    ...(config.strategy === "semantic-breakpoint"
+      ? { breakpointPercentile: config.breakpointPercentile }
+      : {}),
+  };
+}
+
+/**
+ * Split a markdown file into chunks ready for embedding.
+ * Frontmatter is removed, and each chunk records its heading breadcrumb and
+ * its character range in the original file.
+ *
+ * @param content - Raw file contents
+ * @param config - Chunking strategy and token sizes
+ * @param provider - Embedding provider for the semantic-breakpoint strategy
+ */
+export async function chunkDocument(
+  content: string,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG,
+  provider?: EmbeddingProvider
+): Promise<ChunkInput[]> {
+  const { body, offset } = stripFrontmatter(content);
+  const chunks = await chunkWithStrategy(body, config, { offset, provider });
+
+  return chunks.map((chunk) => ({
+    content: chunk.content,
+    embeddingText: chunk.embeddingText,
+    metadata: {
+      headingPath: chunk.headingPath,
+      breadcrumb: chunk.breadcrumb,
+      startOffset: chunk.startOffset,
+      endOffset: chunk.endOffset,
+    },
+  }));
+}
+
+/**
+ * Store a document and its chunks, re-embedding only what changed.
+ *
+ * Markdown is chunked with chunkDocument() unless chunks are passed in.
+ * A document is identified by (userId, path). Re-ingesting an identical file
+ * is a no-op. For a modified file, chunks are matched to stored chunks by
+ * content hash: matches keep their embedding, new chunk texts are embedded,
+ * and stored chunks that no longer appear are deleted. Chunks embedded by a
+ * different model are treated as new. Embeddings are computed before anything
+ * is written, and all writes happen atomically.
+ *
+ * Markdown files are also split into parent sections (see parentSections.ts)
+ * and every chunk is linked to the section it starts in, so search can match
+ * small chunks but return the whole section as context.
+ *
+ * Frontmatter (tags, date, author, project, aliases) is parsed into the
+ * document's metadata and copied onto every chunk. The chunking strategy is
+ * stored on the document; a file re-ingested with different chunking settings
+ * is re-chunked even if its contents are unchanged.
+ *
+ * @throws ZodError if `chunking` contains invalid values
+ */
+export async function ingestDocument(
+  input: IngestDocumentInput
+): Promise<IngestDocumentResult> {
+  const provider = input.provider ?? getEmbeddingProvider();
+  const chunking = parseChunkingConfig(input.chunking);
+  const params = chunkingParams(chunking);
+  const noteMetadata = extractNoteMetadata(input.content);
+  const path = normalizeDocumentPath(input.path);
+  const title = input.title || path.split("/").pop() || path;
+  const contentHash = hashContent(input.content);
+  const sourceType = input.sourceType ?? "upload";
+  const existing = await findDocumentByPath(input.userId, path);
+  const documentId = existing?.id ?? randomUUID();
+
+  const existingChunks: ExistingChunk[] = existing
+    ? await db
+        .select({
+          id: embeddings.id,
+          parentId: embeddings.parentId,
+          contentHash: embeddings.contentHash,
+          metadata: embeddings.metadata,
+          embeddingProvider: embeddings.embeddingProvider,
+          embeddingModel: embeddings.embeddingModel,
+          embeddingDimensions: embeddings.embeddingDimensions,
+        })
+        .from(embeddings)
+        .where(eq(embeddings.documentId, documentId))
+    : [];
+
+  // Chunks embedded by another model must be re-embedded
+  const reusable = existingChunks.filter(
+    (chunk) =>
+      chunk.embeddingProvider === provider.id &&
+      chunk.embeddingModel === provider.model &&
+      chunk.embeddingDimensions === provider.dimensions
+  );
+
+  if (
+    existing &&
+    existing.contentHash === contentHash &&
+    existing.sourceType === sourceType &&
+    existing.chunkingStrategy === chunking.strategy &&
+    canonicalJson(existing.chunkingParams) === canonicalJson(params) &&
+    canonicalJson(existing.metadata ?? {}) === canonicalJson(noteMetadata) &&
+    reusable.length === existingChunks.length
+  ) {
+    return {
+      documentId,
+      title: existing.title,
+      path,
+      chunking,
+      created: false,
+      skipped: true,
+      chunks: { added: 0, unchanged: existingChunks.length, removed: 0 },
+    };
+  }
+
+  // Pool of stored chunk ids per hash (a note may repeat the same chunk text)
+  const pool = poolByHash(reusable);
+
+  // Parent sections: unchanged sections keep their id, so their chunks'
+  // parent links stay valid
+  const existingSections: ExistingSection[] = existing
+    ? await db
+        .select({
+          id: documentSections.id,
+          contentHash: documentSections.contentHash,
+          sectionIndex: documentSections.sectionIndex,
+          startOffset: documentSections.startOffset,
+          endOffset: documentSections.endOffset,
+        })
+        .from(documentSections)
+        .where(eq(documentSections.documentId, documentId))
+    : [];
+  const sectionPool = poolByHash(existingSections);
+  const sections = buildSections(input.content).map((section, sectionIndex) => {
+    const values = {
+      sectionIndex,
+      content: section.content,
+      contentHash: hashContent(section.content),
+      breadcrumb: section.breadcrumb,
+      startOffset: section.startOffset,
+      endOffset: section.endOffset,
+    };
+    const match = sectionPool.get(values.contentHash)?.shift();
+    return { id: match?.id ?? randomUUID(), match, values };
+  });
+  const keptSectionIds = new Set(sections.map((section) => section.id));
+  const removedSectionIds = existingSections
+    .filter((section) => !keptSectionIds.has(section.id))
+    .map((section) => section.id);
+  const movedSections = sections.filter(
+    ({ match, values }) =>
+      match &&
+      (match.sectionIndex !== values.sectionIndex ||
+        match.startOffset !== values.startOffset ||
+        match.endOffset !== values.endOffset)
+  );
+  const newSections = sections.filter((section) => !section.match);
+  const sectionOffsets = sections.map((section) => section.values);
+
+  const inputs = (
+    input.chunks ?? (await chunkDocument(input.content, chunking, provider))
+  ).map((chunk) =>
+    typeof chunk === "string" ? { content: chunk } : chunk
+  );
+  const sharedMetadata = {
+    source: path,
+    fileName: title,
+    ...noteMetadata,
+    ...input.metadata,
+  };
+
+  const toEmbed: ChunkInput[] = [];
+  const toUpdate: Array<{
+    id: string;
+    metadata: Record<string, unknown>;
+    parentId: string | null;
+  }> = [];
+
+  inputs.forEach((chunk, index) => {
+    const metadata = {
+      ...sharedMetadata,
+      chunkIndex: index,
+      totalChunks: inputs.length,
+      ...chunk.metadata,
+    };
+    const sectionIndex = sectionIndexFor(
+      sectionOffsets,
+      chunk.metadata?.startOffset as number | undefined
+    );
+    const parentId = sectionIndex === null ? null : sections[sectionIndex].id;
+    const match = pool.get(hashContent(textToEmbed(chunk)))?.shift();
+
+    if (!match) {
+      toEmbed.push({ ...chunk, metadata, parentId });
+    } else if (
+      canonicalJson(match.metadata) !== canonicalJson(metadata) ||
+      match.parentId !== parentId
+    ) {
+      // Same text, but its position, parent section or document metadata changed
+      toUpdate.push({ id: match.id, metadata, parentId });
+    }
+  });
+
+  const removedIds = existingChunks
+    .filter(
+      (chunk) =>
+        !reusable.includes(chunk) ||
+        pool.get(chunk.contentHash)?.includes(chunk)
+    )
+    .map((chunk) => chunk.id);
+
+  const rows = await prepareEmbeddingRows(
+    toEmbed,
+    input.userId,
+    documentId,
+    sharedMetadata,
+    provider
+  );
+
+  const documentValues = {
+    title,
+    contentHash,
+    mimeType: input.mimeType || "text/markdown",
+    size: Buffer.byteLength(input.content, "utf-8"),
+    chunkingStrategy: chunking.strategy,
+    chunkingParams: params,
+    metadata: noteMetadata,
+    sourceType,
+    updatedAt: new Date(),
+  };
+
+  await runAtomic((conn) => [
+    existing
+      ? conn
+          .update(documents)
+          .set(documentValues)
+          .where(eq(documents.id, documentId))
+      : conn
+          .insert(documents)
+          .values({ id: documentId, userId: input.userId, path, ...documentValues }),
+    ...(removedSectionIds.length > 0
+      ? [
+          conn
+            .delete(documentSections)
+            .where(inArray(documentSections.id, removedSectionIds)),
+        ]
+      : []),
+    ...(newSections.length > 0
+      ? [
+          conn.insert(documentSections).values(
+            newSections.map((section) => ({
+              id: section.id,
+              userId: input.userId,
+              documentId,
+              ...section.values,
+            }))
+          ),
+        ]
+      : []),
+    ...movedSections.map((section) =>
+      conn
+        .update(documentSections)
+        .set({
+          sectionIndex: section.values.sectionIndex,
+          startOffset: section.values.startOffset,
+          endOffset: section.values.endOffset,
+        })
+        .where(eq(documentSections.id, section.id))
+    ),
+    ...(removedIds.length > 0
+      ? [conn.delete(embeddings).where(inArray(embeddings.id, removedIds))]
+      : []),
+    ...toUpdate.map((chunk) =>
+      conn
+        .update(embeddings)
+        .set({
+          metadata: chunk.metadata,
+          parentId: chunk.parentId,
+          updatedAt: new Date(),
+        })
+        .where(eq(embeddings.id, chunk.id))
+    ),
+    ...embeddingInsertQueries(conn, rows),
+  ]);
+
+  return {
+    documentId,
+    title,
+    path,
+    chunking,
+    created: !existing,
+    skipped: false,
+    chunks: {
+      added: rows.length,
+      unchanged: inputs.length - rows.length,
+      removed: removedIds.length,
+    },
+  };
+}
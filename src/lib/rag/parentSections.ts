@@ -0,0 +1,158 @@
+import { db } from "@/lib/db";
+import { documentSections } from "@/lib/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { chunkMarkdown, stripFrontmatter, type MarkdownChunk } from "./chunking";
+import { countTokens } from "./tokenizer";
+import type { SimilarChunk } from "./vectorStore";
+
+/**
+ * Largest parent section in tokens. A note up to this size is a single
+ * section; longer notes get one section per heading, and a heading section
+ * longer than this is split on block boundaries.
+ */
+export const PARENT_SECTION_TOKENS = 1024;
+
+/**
+ * A parent section returned in place of the small chunks that matched.
+ */
+export interface ParentSection {
+  id: string;
+  content: string;
+  breadcrumb: string;
+  /** Character range of the section in the source file */
+  startOffset: number;
+  endOffset: number;
+  /** Child chunks of this section among the search hits, best first */
+  matchedChunkIds: string[];
+}
+
+/**
+ * Split a markdown file into parent sections.
+ *
+ * @param content - Raw file contents (frontmatter is skipped)
+ * @returns Sections in document order, with offsets into `content`
+ */
+export function buildSections(content: string): MarkdownChunk[] {
+  const { body, offset } = stripFrontmatter(content);
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return [];
+  }
+
+  if (countTokens(trimmed) <= PARENT_SECTION_TOKENS) {
+    const start = offset + body.indexOf(trimmed);
+    return [
+      {
+        content: trimmed,
+        embeddingText: trimmed,
+        headingPath: [],
+        breadcrumb: "",
+        startOffset: start,
+        endOffset: start + trimmed.length,
+      },
+    ];
+  }
+
+  return chunkMarkdown(body, {
+    chunkSize: PARENT_SECTION_TOKENS,
+    chunkOverlap: 0,
+    lengthFunction: countTokens,
+    offset,
+  });
+}
+
+/**
+ * Index of the section a child chunk belongs to: the last section starting
+ * at or before the chunk's start.
+ *
+ * @param sections - Sections in document order
+ * @param childStart - Start offset of the child chunk, if known
+ * @returns The section index, or null when the chunk has no offset
+ */
+export function sectionIndexFor(
+  sections: Array<{ startOffset: number }>,
+  childStart: number | null | undefined
+): number | null {
+  if (typeof childStart !== "number" || sections.length === 0) {
+    return null;
+  }
+
+  let index = 0;
+  for (let i = 0; i < sections.length; i++) {
+    if (sections[i].startOffset <= childStart) {
+      index = i;
+    } else {
+      break;
+    }
+  }
+  return index;
+}
+
+/**
+ * Replace child hits by their parent sections, keeping one hit per parent.
+ *
+ * Hits are walked best first; the first hit of each parent stands for it and
+ * gets `parent` set, later hits of the same parent only add to its
+ * `matchedChunkIds`. Hits without a parent are kept as they are.
+ *
+ * @param hits - Child chunks, best first
+ * @param topK - Maximum number of results
+ * @param userId - Optional user ID, so only the user's sections are read
+ * @returns Up to `topK` de-duplicated results
+ */
+export async function collapseToParents(
+  hits: SimilarChunk[],
+  topK: number,
+  userId?: string
+): Promise<SimilarChunk[]> {
+  const parentIds = [
+    ...new Set(hits.flatMap((hit) => (hit.parentId ? [hit.parentId] : []))),
+  ];
+
+  const sections: Array<typeof documentSections.$inferSelect> =
+    parentIds.length > 0
+      ? await db
+          .select()
+          .from(documentSections)
+          .where(
+            and(
+              inArray(documentSections.id, parentIds),
+              userId ? eq(documentSections.userId, userId) : undefined
+            )
+          )
+      : [];
+  const sectionsById = new Map(sections.map((section) => [section.id, section]));
+
+  const results: SimilarChunk[] = [];
+  const byParent = new Map<string, SimilarChunk>();
+
+  for (const hit of hits) {
+    const section = hit.parentId ? sectionsById.get(hit.parentId) : undefined;
+
+    if (!section) {
+      if (results.length < topK) results.push(hit);
+      continue;
+    }
+
+    const existing = byParent.get(section.id);
+    if (existing) {
+      existing.parent!.matchedChunkIds.push(hit.id);
+    } else if (results.length < topK) {
+      const result = {
+        ...hit,
+        parent: {
+          id: section.id,
+          content: section.content,
+          breadcrumb: section.breadcrumb,
+          startOffset: section.startOffset,
+          endOffset: section.endOffset,
+          matchedChunkIds: [hit.id],
+        },
+      };
+      byParent.set(section.id, result);
+      results.push(result);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,197 @@
+import { openai } from "@ai-sdk/openai";
+import { generateObject } from "ai";
+import { z } from "zod";
+
+export type ExpandedQueryKind = "original" | "paraphrase" | "sub-question" | "hyde";
+
+/**
+ * One of the queries searched for a user query.
+ */
+export interface ExpandedQuery {
+  text: string;
+  kind: ExpandedQueryKind;
+}
+
+export interface ExpansionOptions {
+  /** Paraphrases and sub-questions to generate, on top of the original (default: 3) */
+  count?: number;
+  /** Also write a hypothetical answer to search with (HyDE). Default: false */
+  hyde?: boolean;
+}
+
+/**
+ * Rewrites a search query into several queries that are searched together.
+ * The original query always comes first.
+ */
+export interface QueryExpander {
+  /** Expander identifier, e.g. "llm", "local" */
+  id: string;
+  expand(query: string, options?: ExpansionOptions): Promise<ExpandedQuery[]>;
+}
+
+const DEFAULT_EXPANSION_COUNT = 3;
+const DEFAULT_LLM_MODEL = "gpt-4o-mini";
+
+const STOP_WORDS = new Set(
+  (
+    "a an the and or but of to in on at for from by with about into over after before " +
+    "is are was were be been being do does did have has had i me my we our us you your " +
+    "it its this that these those there what which who whom whose when where why how " +
+    "can could should would will shall may might must please tell show find give any all some"
+  ).split(" ")
+);
+
+/**
+ * Remove duplicates (ignoring case and spacing), keeping the first occurrence.
+ */
+function dedupe(queries: ExpandedQuery[]): ExpandedQuery[] {
+  const seen = new Set<string>();
+  return queries.filter((query) => {
+    const key = query.text.toLowerCase().replace(/\s+/g, " ").trim();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Deterministic expander used when no LLM is configured.
+ *
+ * Produces a keyword-only form of the query (stop and question words
+ * removed) and splits compound questions ("X and Y?", "X; Y") into
+ * sub-questions. It cannot write hypothetical answers, so `hyde` is ignored.
+ */
+export function createLocalQueryExpander(): QueryExpander {
+  return {
+    id: "local",
+    async expand(query, options = {}) {
+      const count = options.count ?? DEFAULT_EXPANSION_COUNT;
+      const expansions: ExpandedQuery[] = [];
+
+      const keywords = (query.match(/[\p{L}\p{N}][\p{L}\p{N}_.\-']*/gu) ?? []).filter(
+        (word) => !STOP_WORDS.has(word.toLowerCase())
+      );
+      if (keywords.length > 0) {
+        expansions.push({ text: keywords.join(" "), kind: "paraphrase" });
+      }
+
+      const parts = query
+        .split(/\?\s+|;\s*|\s+(?:and|as well as|also)\s+/i)
+        .map((part) => part.trim().replace(/[?.!]+$/, ""))
+        .filter(
+          (part) =>
+            (part.match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+              (word) => !STOP_WORDS.has(word.toLowerCase())
+            ).length >= 2
+        );
+      if (parts.length > 1) {
+        expansions.push(...parts.map((part) => ({ text: part, kind: "sub-question" as const })));
+      }
+
+      return dedupe([{ text: query, kind: "original" }, ...expansions]).slice(0, count + 1);
+    },
+  };
+}
+
+const expansionSchema = z.object({
+  paraphrases: z
+    .array(z.string())
+    .describe("Rewordings of the query using different terms a note might use"),
+  subQuestions: z
+    .array(z.string())
+    .describe("Simpler questions that together answer the query; empty if it is already simple"),
+  hypotheticalAnswer: z
+    .string()
+    .optional()
+    .describe("A short, plausible passage from a note that would answer the query"),
+});
+
+/**
+ * LLM expander: one structured-output call writes paraphrases,
+ * sub-questions and optionally a hypothetical answer (HyDE). Falls back to
+ * the local expander if the call fails.
+ */
+export function createLLMQueryExpander(model: string = DEFAULT_LLM_MODEL): QueryExpander {
+  const fallback = createLocalQueryExpander();
+
+  return {
+    id: "llm",
+    async expand(query, options = {}) {
+      const count = options.count ?? DEFAULT_EXPANSION_COUNT;
+
+      try {
+        const { object } = await generateObject({
+          model: openai(model),
+          schema: expansionSchema,
+          temperature: 0,
+          prompt: `You help search a personal notes knowledge base. Rewrite the search query below to improve recall.
+
+Query: ${query}
+
+Write up to ${count} alternatives in total across paraphrases and sub-questions. Keep names, identifiers, dates and numbers exactly as written.${
+            options.hyde
+              ? " Also write a hypothetical answer: 2-3 sentences as they might appear in the user's notes."
+              : ""
+          }`,
+        });
+
+        const expansions: ExpandedQuery[] = [
+          ...object.paraphrases.map((text) => ({ text, kind: "paraphrase" as const })),
+          ...object.subQuestions.map((text) => ({ text, kind: "sub-question" as const })),
+        ];
+
+        return [
+          ...dedupe([{ text: query, kind: "original" }, ...expansions]).slice(0, count + 1),
+          ...(options.hyde && object.hypotheticalAnswer
+            ? [{ text: object.hypotheticalAnswer, kind: "hyde" as const }]
+            : []),
+        ];
+      } catch (error) {
+        console.warn(
+          "Query expansion failed, using local expansion:",
+          error instanceof Error ? error.message : error
+        );
+        return fallback.expand(query, options);
+      }
+    },
+  };
+}
+
+/**
+ * Create the expander selected by QUERY_EXPANSION_PROVIDER (llm | local).
+ * Defaults to llm when OPENAI_API_KEY is set, otherwise local.
+ * QUERY_EXPANSION_MODEL sets the llm model (default: gpt-4o-mini).
+ */
+export function createQueryExpanderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): QueryExpander {
+  const name = env.QUERY_EXPANSION_PROVIDER || (env.OPENAI_API_KEY ? "llm" : "local");
+
+  switch (name) {
+    case "llm":
+      return createLLMQueryExpander(env.QUERY_EXPANSION_MODEL || undefined);
+    case "local":
+      return createLocalQueryExpander();
+    default:
+      throw new Error(`Unknown QUERY_EXPANSION_PROVIDER "${name}"`);
+  }
+}
+
+let activeExpander: QueryExpander | null = null;
+
+/**
+ * Get the configured query expander, created once and reused.
+ */
+export function getQueryExpander(): QueryExpander {
+  if (!activeExpander) {
+    activeExpander = createQueryExpanderFromEnv();
+  }
+  return activeExpander;
+}
+
+/**
+ * Override the active query expander (e.g. the local one in tests).
+ */
+export function setQueryExpander(expander: QueryExpander): void {
+  activeExpander = expander;
+}
@@ -0,0 +1,166 @@
+import { openai } from '@ai-sdk/openai';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+
+/**
+ * Scores how well each candidate passage answers a query. Unlike embedding
+ * similarity, the query and passage are judged together.
+ */
+export interface Reranker {
+  /** Reranker identifier, e.g. "llm", "local" */
+  id: string;
+  /** Model identifier, e.g. "gpt-4o-mini" */
+  model: string;
+  /** Score passages for the query, returning one score from 0 to 1 per passage in the same order */
+  rerank(query: string, passages: string[]): Promise<number[]>;
+}
+
+export type RerankerName = 'none' | 'llm' | 'local';
+
+const DEFAULT_LLM_MODEL = 'gpt-4o-mini';
+
+/**
+ * Characters of each passage shown to the LLM judge.
+ */
+const MAX_JUDGED_PASSAGE_LENGTH = 2000;
+
+const judgementSchema = z.object({
+  scores: z.array(
+    z.object({
+      index: z.number().int().describe('Passage number'),
+      score: z.number().min(0).max(10).describe('Relevance from 0 (unrelated) to 10 (directly answers the query)'),
+    })
+  ),
+});
+
+/**
+ * LLM-as-judge reranker: one structured-output call grades all passages.
+ * Passages the model skips score 0.
+ */
+export function createLLMReranker(model: string = DEFAULT_LLM_MODEL): Reranker {
+  return {
+    id: 'llm',
+    model,
+    async rerank(query, passages) {
+      if (passages.length === 0) {
+        return [];
+      }
+
+      const numbered = passages
+        .map((passage, index) => `[${index}]\n${passage.slice(0, MAX_JUDGED_PASSAGE_LENGTH)}`)
+        .join('\n\n');
+
+      const { object } = await generateObject({
+        model: openai(model),
+        schema: judgementSchema,
+        temperature: 0,
+        prompt: `Rate how relevant each passage is to the search query. Judge only whether the passage contains information that answers the query, not its style.
+
+Query: ${query}
+
+Passages:
+${numbered}
+
+Return a score for every passage number.`,
+      });
+
+      const scores = new Array<number>(passages.length).fill(0);
+      for (const { index, score } of object.scores) {
+        if (index >= 0 && index < passages.length) {
+          scores[index] = score / 10;
+        }
+      }
+      return scores;
+    },
+  };
+}
+
+function terms(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Deterministic local reranker for offline development and tests.
+ *
+ * Scores each passage against the query like a tiny cross-encoder built from
+ * lexical signals: BM25 over the candidate set, the share of the query's
+ * (idf-weighted) terms that the passage covers, and how many query bigrams
+ * appear next to each other in the passage.
+ */
+export function createLocalReranker(): Reranker {
+  const k1 = 1.2;
+  const b = 0.75;
+
+  return {
+    id: 'local',
+    model: 'lexical-bm25',
+    async rerank(query, passages) {
+      const queryTokens = terms(query);
+      const queryTerms = [...new Set(queryTokens)];
+      if (queryTerms.length === 0 || passages.length === 0) {
+        return passages.map(() => 0);
+      }
+
+      const docs = passages.map(terms);
+      const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+      const idf = new Map(
+        queryTerms.map((term) => {
+          const df = docs.filter((doc) => doc.includes(term)).length;
+          return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+        })
+      );
+      const totalIdf = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+      const queryBigrams = queryTokens.slice(1).map((term, i) => `${queryTokens[i]} ${term}`);
+
+      return docs.map((doc) => {
+        const counts = new Map<string, number>();
+        for (const term of doc) {
+          counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+
+        let bm25 = 0;
+        let covered = 0;
+        for (const term of queryTerms) {
+          const tf = counts.get(term) ?? 0;
+          if (tf === 0) continue;
+          const weight = idf.get(term)!;
+          covered += weight;
+          bm25 += (weight * tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * doc.length) / avgLength));
+        }
+
+        const docBigrams = new Set(doc.slice(1).map((term, i) => `${doc[i]} ${term}`));
+        const proximity =
+          queryBigrams.length > 0
+            ? queryBigrams.filter((bigram) => docBigrams.has(bigram)).length / queryBigrams.length
+            : 0;
+        const coverage = totalIdf > 0 ? covered / totalIdf : 0;
+
+        return 0.55 * coverage + 0.25 * proximity + 0.2 * (bm25 / (bm25 + 1));
+      });
+    },
+  };
+}
+
+/**
+ * Create the reranker selected by environment variables, or null when
+ * reranking is disabled.
+ *
+ * RERANK_PROVIDER: none (default) | llm | local
+ * RERANK_MODEL: model for the llm reranker (default: gpt-4o-mini)
+ */
+export function createRerankerFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Reranker | null {
+  const name = (env.RERANK_PROVIDER || 'none') as RerankerName;
+
+  switch (name) {
+    case 'none':
+      return null;
+    case 'llm':
+      return createLLMReranker(env.RERANK_MODEL || undefined);
+    case 'local':
+      return createLocalReranker();
+    default:
+      throw new Error(`Unknown RERANK_PROVIDER "${name}"`);
+  }
+}
@@ -0,0 +1,60 @@
+import { createRerankerFromEnv, type Reranker } from './rerankers';
+
+export type { Reranker } from './rerankers';
+
+let activeReranker: Reranker | null | undefined;
+
+/**
+ * Get the reranker configured via RERANK_* environment variables, or null if
+ * reranking is disabled. The reranker is created once and reused.
+ */
+export function getReranker(): Reranker | null {
+  if (activeReranker === undefined) {
+    activeReranker = createRerankerFromEnv();
+  }
+  return activeReranker;
+}
+
+/**
+ * Override the active reranker (e.g. a deterministic fake in tests), or pass
+ * null to disable reranking.
+ */
+export function setReranker(reranker: Reranker | null): void {
+  activeReranker = reranker;
+}
+
+/**
+ * Score items with a reranker and keep the best ones.
+ * Ties keep their original (retrieval) order.
+ *
+ * @param query - The search query
+ * @param items - Retrieved candidates, best first
+ * @param topK - Number of items to keep
+ * @param reranker - Reranker to score with
+ * @returns The top items by rerank score, each with `rerankScore` set
+ */
+export async function rerankItems<T extends { content: string }>(
+  query: string,
+  items: T[],
+  topK: number,
+  reranker: Reranker
+): Promise<Array<T & { rerankScore: number }>> {
+  if (items.length === 0) {
+    return [];
+  }
+
+  const scores = await reranker.rerank(
+    query,
+    items.map((item) => item.content)
+  );
+
+  if (scores.length !== items.length) {
+    throw new Error('Reranker returned the wrong number of scores');
+  }
+
+  return items
+    .map((_, index) => index)
+    .sort((a, b) => scores[b] - scores[a] || a - b)
+    .slice(0, topK)
+    .map((index) => ({ ...items[index], rerankScore: scores[index] }));
+}
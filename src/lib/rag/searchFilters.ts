@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { documents, embeddings } from "@/lib/db/schema";
+import { inArray, like, sql, type SQL } from "drizzle-orm";
+import { normalizeDocumentPath } from "./documents";
+import { toIsoDate } from "./frontmatter";
+
+const metadataValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/**
+ * Structured search filters. All given filters must match; a chunk without
+ * the filtered field never matches. The descriptions double as parameter docs
+ * for the searchNotes tool.
+ */
+export const searchFiltersSchema = z.object({
+  documentIds: z
+    .array(z.string().uuid())
+    .optional()
+    .describe("Only these documents (documentId values from earlier search results)"),
+  sources: z
+    .array(z.string())
+    .optional()
+    .describe("Only these note files, by path (the source field of search results)"),
+  pathPrefix: z
+    .string()
+    .optional()
+    .describe("Only notes whose path starts with this prefix, e.g. a folder like 'meetings/standups/'"),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe("Only notes tagged with all of these tags"),
+  dateFrom: z
+    .string()
+    .date()
+    .optional()
+    .describe("Only notes dated on or after this day (YYYY-MM-DD)"),
+  dateTo: z
+    .string()
+    .date()
+    .optional()
+    .describe("Only notes dated on or before this day (YYYY-MM-DD)"),
+  author: z.string().optional().describe("Only notes by this author"),
+  project: z.string().optional().describe("Only notes belonging to this project"),
+  alias: z.string().optional().describe("Only the note known by this alias"),
+  metadata: z
+    .record(metadataValueSchema)
+    .optional()
+    .describe("Only chunks whose metadata has exactly these key/value pairs"),
+});
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+
+function parseDateFilter(name: string, value: string): string {
+  const iso = toIsoDate(value);
+  if (!iso) {
+    throw new Error(`Invalid ${name} filter: ${value}`);
+  }
+  return iso;
+}
+
+/**
+ * Escape LIKE wildcards so a path prefix matches literally.
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Compile search filters to SQL conditions on the embeddings table.
+ * Tag and key/value filters use jsonb containment, which the GIN index on
+ * embeddings.metadata serves; the path prefix is matched against documents.
+ *
+ * @throws Error if a date filter is not a valid date
+ */
+export function filterConditions(filters: SearchFilters = {}): SQL[] {
+  const conditions: SQL[] = [];
+  const field = (key: string) => sql`(${embeddings.metadata} ->> ${key})`;
+  const containsMetadata = (value: Record<string, unknown>) =>
+    sql`${embeddings.metadata} @> ${JSON.stringify(value)}::jsonb`;
+
+  if (filters.documentIds) {
+    // An explicitly empty list matches nothing rather than everything
+    conditions.push(
+      filters.documentIds.length > 0
+        ? inArray(embeddings.documentId, filters.documentIds)
+        : sql`false`
+    );
+  }
+
+  if (filters.sources) {
+    const sources = filters.sources.map(normalizeDocumentPath).filter(Boolean);
+    conditions.push(
+      sources.length > 0 ? inArray(field("source"), sources) : sql`false`
+    );
+  }
+
+  const pathPrefix = normalizeDocumentPath(filters.pathPrefix?.trim() ?? "");
+  if (pathPrefix) {
+    conditions.push(
+      inArray(
+        embeddings.documentId,
+        sql`(select ${documents.id} from ${documents} where ${like(
+          documents.path,
+          `${escapeLike(pathPrefix)}%`
+        )})`
+      )
+    );
+  }
+
+  const tags = (filters.tags ?? [])
+    .map((tag) => tag.trim().replace(/^#/, "").toLowerCase())
+    .filter(Boolean);
+  if (tags.length > 0) {
+    conditions.push(containsMetadata({ tags }));
+  }
+
+  if (filters.dateFrom) {
+    conditions.push(sql`${field("date")} >= ${parseDateFilter("dateFrom", filters.dateFrom)}`);
+  }
+  if (filters.dateTo) {
+    // dateTo is a whole day (YYYY-MM-DD): include everything before the next one
+    const dateTo = parseDateFilter("dateTo", filters.dateTo);
+    conditions.push(
+      sql`${field("date")} < ${new Date(Date.parse(dateTo) + 86_400_000).toISOString()}`
+    );
+  }
+
+  if (filters.author) {
+    conditions.push(sql`lower(${field("author")}) = lower(${filters.author.trim()})`);
+  }
+  if (filters.project) {
+    conditions.push(sql`lower(${field("project")}) = lower(${filters.project.trim()})`);
+  }
+  if (filters.alias) {
+    conditions.push(
+      sql`exists (select 1 from jsonb_array_elements_text(${embeddings.metadata} -> 'aliases') as alias where lower(alias) = lower(${filters.alias.trim()}))`
+    );
+  }
+
+  if (filters.metadata && Object.keys(filters.metadata).length > 0) {
+    conditions.push(containsMetadata(filters.metadata));
+  }
+
+  return conditions;
+}
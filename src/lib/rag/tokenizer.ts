@@ -0,0 +1,37 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+
+let encoder: Tiktoken | null = null;
+
+/**
+ * cl100k_base tokenizer, the encoding used by OpenAI's text-embedding-3 models.
+ * For other embedding models it is a close enough proxy for sizing chunks.
+ */
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100k_base);
+  }
+  return encoder;
+}
+
+/**
+ * Encode text into token ids. Special-token strings such as "<|endoftext|>"
+ * are treated as plain text rather than rejected.
+ */
+export function encodeTokens(text: string): number[] {
+  return getEncoder().encode(text, [], []);
+}
+
+/**
+ * Decode token ids back into text.
+ */
+export function decodeTokens(tokens: number[]): string {
+  return getEncoder().decode(tokens);
+}
+
+/**
+ * Count the tokens in a piece of text.
+ */
+export function countTokens(text: string): number {
+  return text ? encodeTokens(text).length : 0;
+}
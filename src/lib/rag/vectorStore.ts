@@ -1,103 +1,606 @@
-import { db } from "@/lib/db";
+import { db, runAtomic } from "@/lib/db";
 import { embeddings } from "@/lib/db/schema";
 import { cosineDistance } from "drizzle-orm/sql/functions/vector";
-import { eq } from "drizzle-orm";
-import { generateEmbedding } from "./embeddings";
+import { and, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import {
+  generateEmbedding,
+  generateEmbeddings,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./embeddings";
+import { hashContent } from "./documents";
+import { filterConditions, type SearchFilters } from "./searchFilters";
+import { getReranker, rerankItems, type Reranker } from "./reranking";
+import { selectDiverse } from "./diversity";
+import { expandWithNeighbors, type ExpandedContext } from "./contextExpansion";
+import { collapseToParents, type ParentSection } from "./parentSections";
+import type { ExpandedQuery } from "./queryExpansion";
+
+/**
+ * A chunk to embed, with optional metadata merged over the document metadata.
+ * `embeddingText` is embedded instead of `content` when set (e.g. content
+ * prefixed with its heading breadcrumb); `content` is what gets stored.
+ */
+export interface ChunkInput {
+  content: string;
+  embeddingText?: string;
+  metadata?: Record<string, unknown>;
+  /** Parent section the chunk belongs to (see parentSections.ts) */
+  parentId?: string | null;
+}
+
+/**
+ * The text that is embedded (and hashed) for a chunk.
+ */
+export function textToEmbed(chunk: ChunkInput): string {
+  return chunk.embeddingText ?? chunk.content;
+}
+
+/**
+ * Rows per INSERT statement, keeping bulk inserts well below Postgres'
+ * 65535 bind-parameter limit.
+ */
+const INSERT_BATCH_SIZE = 500;
 
 export interface SimilarChunk {
   id: string;
+  documentId: string;
+  /** Parent section of the chunk, if the document has sections */
+  parentId: string | null;
   content: string;
   metadata: Record<string, any> | null;
-  similarity: number; // Lower is more similar (distance, not similarity score)
+  /**
+   * Cosine similarity to the query, from 0 (opposite) to 1 (identical).
+   * In keyword mode, where no query embedding exists, the keyword rank (0-1).
+   */
+  similarity: number;
+  /** Score the results are ordered by: similarity, keyword rank or fused RRF score */
+  score: number;
+  /** Which searches returned the chunk */
+  matchedBy: Array<"vector" | "keyword">;
+  /** Reranker relevance from 0 to 1, when the results were reranked */
+  rerankScore?: number;
+  /** The chunk merged with its neighbours, when `expandNeighbors` is set */
+  context?: ExpandedContext;
+  /** The chunk's parent section, when `parents` is set */
+  parent?: ParentSection;
+  /** The expanded queries that retrieved the chunk, when `queries` is set */
+  matchedQueries?: string[];
+}
+
+export const SEARCH_MODES = ["vector", "keyword", "hybrid"] as const;
+
+/**
+ * vector: cosine distance only. keyword: Postgres full-text search only.
+ * hybrid: both, fused with reciprocal rank fusion.
+ */
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export interface SearchOptions {
+  /** Search mode (default: vector) */
+  mode?: SearchMode;
+  /** Restrict the search to matching chunks (see searchFilters.ts) */
+  filters?: SearchFilters;
+  /** Embedding provider for the query (default: the configured provider) */
+  provider?: EmbeddingProvider;
+  /**
+   * Rerank the retrieved candidates: true uses the configured reranker (a
+   * no-op when RERANK_PROVIDER is none), or pass a reranker. Default: false.
+   */
+  rerank?: boolean | Reranker;
+  /** Candidates retrieved for reranking (default: 3 x topK) */
+  rerankCandidates?: number;
+  /**
+   * Drop chunks with a lower `similarity` (0-1). Chunks found by keyword
+   * search are kept regardless, since exact term matches often embed poorly.
+   */
+  minSimilarity?: number;
+  /**
+   * Diversify results with Maximal Marginal Relevance: 1 ranks by relevance
+   * only, lower values increasingly penalize chunks similar to ones already
+   * picked (0.5-0.7 works well). Default: off.
+   */
+  mmrLambda?: number;
+  /** Return at most this many chunks per document */
+  maxPerDocument?: number;
+  /**
+   * Attach `context` to each result: the chunk plus this many chunks before
+   * and after it, merged into one passage. Default: 0 (off).
+   */
+  expandNeighbors?: number;
+  /**
+   * Small-to-big retrieval: match small chunks, but return one result per
+   * parent section (with `parent` set), up to topK sections. Default: false.
+   */
+  parents?: boolean;
+  /**
+   * Multi-query retrieval: search all of these queries (e.g. from
+   * queryExpansion.ts) in parallel and fuse the rankings, instead of only
+   * `query`. Reranking still judges against `query`. HyDE answers are only
+   * searched by vector, since their wording is made up.
+   */
+  queries?: ExpandedQuery[];
+}
+
+/**
+ * Reciprocal rank fusion constant: larger values flatten the difference
+ * between top and lower ranks. 60 is the value from the original RRF paper.
+ */
+const RRF_K = 60;
+
+/**
+ * Candidates fetched from each search in hybrid mode, per requested result.
+ */
+const HYBRID_CANDIDATES_PER_RESULT = 4;
+
+/**
+ * Candidates retrieved for the reranker, per requested result.
+ */
+const RERANK_CANDIDATES_PER_RESULT = 3;
+
+/**
+ * Candidates retrieved for similarity cutoffs, MMR and per-document caps,
+ * per requested result, so enough remain after filtering.
+ */
+const DIVERSITY_CANDIDATES_PER_RESULT = 4;
+
+/**
+ * Restrict embeddings to rows produced by the given provider and model.
+ * Vectors from different models live in different spaces, so comparing them
+ * would return meaningless distances (or fail outright on a dimension mismatch).
+ */
+function sameModelAs(provider: EmbeddingProvider): SQL {
+  return and(
+    eq(embeddings.embeddingProvider, provider.id),
+    eq(embeddings.embeddingModel, provider.model),
+    eq(embeddings.embeddingDimensions, provider.dimensions)
+  )!;
+}
+
+/**
+ * The embedding column cast to the provider's dimension, so the query can use
+ * the matching partial HNSW index.
+ */
+function typedEmbedding(provider: EmbeddingProvider): SQL {
+  return sql`${embeddings.embedding}::vector(${sql.raw(String(provider.dimensions))})`;
+}
+
+/**
+ * Full-text query matching any of the query's words. Each word goes through
+ * plainto_tsquery, so punctuation and operators in the query are harmless and
+ * stop words drop out; ts_rank then favours chunks matching more words.
+ *
+ * @returns null if the query has no searchable words
+ */
+export function keywordQuery(query: string): SQL | null {
+  const words = [
+    ...new Set(query.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}_.\-']*/gu) ?? []),
+  ].slice(0, 32);
+  if (words.length === 0) {
+    return null;
+  }
+  return sql`(${sql.join(
+    words.map((word) => sql`plainto_tsquery('english', ${word})`),
+    sql` || `
+  )})`;
+}
+
+/**
+ * Turn a cosine distance (0 = identical, 2 = opposite) into a 0-1 similarity.
+ */
+function toSimilarity(distance: unknown): number {
+  return typeof distance === "number" ? Math.max(0, 1 - distance / 2) : 0.5; // Fallback if distance is somehow not a number
+}
+
+interface SearchRow {
+  id: string;
+  documentId: string;
+  parentId: string | null;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  distance?: number;
+  rank?: number;
+}
+
+const resultColumns = {
+  id: embeddings.id,
+  documentId: embeddings.documentId,
+  parentId: embeddings.parentId,
+  content: embeddings.content,
+  metadata: embeddings.metadata,
+};
+
+/**
+ * Nearest chunks by cosine distance, using the HNSW index.
+ */
+async function vectorSearch(
+  queryEmbedding: number[],
+  limit: number,
+  conditions: SQL[],
+  provider: EmbeddingProvider
+): Promise<SimilarChunk[]> {
+  const distance = cosineDistance(typedEmbedding(provider), queryEmbedding);
+
+  const rows: SearchRow[] = await db
+    .select({ ...resultColumns, distance })
+    .from(embeddings)
+    .where(and(sameModelAs(provider), ...conditions))
+    .orderBy(distance)
+    .limit(limit);
+
+  return rows.map(({ distance, ...row }) => {
+    const similarity = toSimilarity(distance);
+    return { ...row, similarity, score: similarity, matchedBy: ["vector"] };
+  });
+}
+
+/**
+ * Chunks matching the query's words, ranked by ts_rank_cd (normalized by
+ * chunk length and scaled to 0-1) using the GIN index on search_vector.
+ * When a query embedding is given, results are limited to the provider's
+ * model and carry their cosine similarity too.
+ */
+async function keywordSearch(
+  query: string,
+  limit: number,
+  conditions: SQL[],
+  vector?: { embedding: number[]; provider: EmbeddingProvider }
+): Promise<SimilarChunk[]> {
+  const tsQuery = keywordQuery(query);
+  if (!tsQuery) {
+    return [];
+  }
+  // Normalization 1|32: divide by 1 + log(length), then map to rank/(rank+1)
+  const rank = sql<number>`ts_rank_cd(${embeddings.searchVector}, ${tsQuery}, 33)`;
+
+  const rows: SearchRow[] = await db
+    .select({
+      ...resultColumns,
+      rank,
+      ...(vector
+        ? {
+            distance: cosineDistance(typedEmbedding(vector.provider), vector.embedding),
+          }
+        : {}),
+    })
+    .from(embeddings)
+    .where(
+      and(
+        sql`${embeddings.searchVector} @@ ${tsQuery}`,
+        ...(vector ? [sameModelAs(vector.provider)] : []),
+        ...conditions
+      )
+    )
+    .orderBy(desc(rank))
+    .limit(limit);
+
+  return rows.map(({ distance, rank, ...row }) => {
+    const keywordRank = Number(rank ?? 0);
+    return {
+      ...row,
+      similarity: vector ? toSimilarity(distance) : keywordRank,
+      score: keywordRank,
+      matchedBy: ["keyword"],
+    };
+  });
+}
+
+/**
+ * Merge ranked result lists with reciprocal rank fusion: each chunk scores
+ * the sum of 1 / (RRF_K + rank) over the lists it appears in, and keeps its
+ * best similarity.
+ *
+ * @param lists - Result lists, each ordered best first
+ * @returns Distinct chunks ordered by fused score, with `score` set to it
+ */
+export function reciprocalRankFusion(lists: SimilarChunk[][]): SimilarChunk[] {
+  const fused = new Map<string, SimilarChunk>();
+
+  for (const list of lists) {
+    list.forEach((chunk, index) => {
+      const contribution = 1 / (RRF_K + index + 1);
+      const existing = fused.get(chunk.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.similarity = Math.max(existing.similarity, chunk.similarity);
+        existing.matchedBy = [...new Set([...existing.matchedBy, ...chunk.matchedBy])];
+        if (chunk.matchedQueries) {
+          existing.matchedQueries = [
+            ...new Set([...(existing.matchedQueries ?? []), ...chunk.matchedQueries]),
+          ];
+        }
+      } else {
+        fused.set(chunk.id, { ...chunk, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retrieve the best `limit` chunks for the query in the given mode.
+ */
+async function retrieve(
+  query: string,
+  limit: number,
+  conditions: SQL[],
+  mode: SearchMode,
+  provider: EmbeddingProvider
+): Promise<SimilarChunk[]> {
+  if (mode === "keyword") {
+    return keywordSearch(query, limit, conditions);
+  }
+
+  // Generate embedding for the query
+  const queryEmbedding = await generateEmbedding(query, provider);
+
+  if (mode === "vector") {
+    return vectorSearch(queryEmbedding, limit, conditions, provider);
+  }
+
+  const candidates = limit * HYBRID_CANDIDATES_PER_RESULT;
+  const [vectorResults, keywordResults] = await Promise.all([
+    vectorSearch(queryEmbedding, candidates, conditions, provider),
+    keywordSearch(query, candidates, conditions, {
+      embedding: queryEmbedding,
+      provider,
+    }),
+  ]);
+
+  return reciprocalRankFusion([vectorResults, keywordResults]).slice(0, limit);
+}
+
+/**
+ * Retrieve chunks for several queries in parallel and fuse the rankings,
+ * recording which queries found each chunk.
+ */
+async function retrieveAll(
+  queries: ExpandedQuery[],
+  limit: number,
+  conditions: SQL[],
+  mode: SearchMode,
+  provider: EmbeddingProvider
+): Promise<SimilarChunk[]> {
+  const searches = queries.flatMap((query) => {
+    if (query.kind !== "hyde") {
+      return [{ query, mode }];
+    }
+    return mode === "keyword" ? [] : [{ query, mode: "vector" as const }];
+  });
+
+  const lists = await Promise.all(
+    searches.map(async (search) => {
+      const results = await retrieve(
+        search.query.text,
+        limit,
+        conditions,
+        search.mode,
+        provider
+      );
+      return results.map((chunk) => ({ ...chunk, matchedQueries: [search.query.text] }));
+    })
+  );
+
+  return reciprocalRankFusion(lists).slice(0, limit);
 }
 
 /**
- * Search for similar text chunks using vector similarity search.
- * Uses pgvector's cosine distance operator (<=>) with HNSW index for fast search.
+ * Load the stored vectors of the given chunks, keyed by chunk id.
+ */
+async function loadVectors(ids: string[]): Promise<Map<string, number[]>> {
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const rows: Array<{ id: string; embedding: number[] | null }> = await db
+    .select({ id: embeddings.id, embedding: embeddings.embedding })
+    .from(embeddings)
+    .where(inArray(embeddings.id, ids));
+
+  return new Map(
+    rows.flatMap((row) => (row.embedding ? [[row.id, row.embedding] as const] : []))
+  );
+}
+
+/**
+ * Search for relevant text chunks.
+ *
+ * vector mode uses pgvector's cosine distance operator (<=>) with the HNSW
+ * index. keyword mode uses Postgres full-text search, which finds exact
+ * identifiers, ticket numbers, acronyms and names that embeddings miss.
+ * hybrid mode runs both and fuses the rankings with reciprocal rank fusion.
+ *
+ * Retrieved candidates then go through optional stages: a minimum-similarity
+ * cutoff, reranking (results ordered by `rerankScore`), and selection with
+ * MMR diversity and a per-document cap. Fewer than `topK` chunks are returned
+ * when not enough candidates pass. Matched chunks can be collapsed into their
+ * parent sections (small-to-big retrieval), and each result can be expanded
+ * with its neighbouring chunks so answers spanning a chunk boundary stay whole.
  *
  * @param query - The text query to search for
- * @param topK - Number of top results to return (default: 5)
+ * @param topK - Maximum number of results to return (default: 5)
  * @param userId - Optional user ID to filter embeddings (multi-tenancy)
- * @returns Array of similar chunks with their content, metadata, and similarity scores
+ * @param options - Search mode, filters, embedding provider, and the optional stages
+ * @returns Array of chunks with their content, metadata, similarity and ranking score
  */
 export async function searchSimilar(
   query: string,
   topK: number = 5,
-  userId?: string
+  userId?: string,
+  options: SearchOptions = {}
 ): Promise<SimilarChunk[]> {
-  // Generate embedding for the query
-  const queryEmbedding = await generateEmbedding(query);
-
-  // Build query with optional user filter
-  let queryBuilder = db
-    .select({
-      id: embeddings.id,
-      content: embeddings.content,
-      metadata: embeddings.metadata,
-      distance: cosineDistance(embeddings.embedding, queryEmbedding),
-    })
-    .from(embeddings);
+  const mode = options.mode ?? "vector";
+  const provider = options.provider ?? getEmbeddingProvider();
+  const reranker =
+    options.rerank === true ? getReranker() : options.rerank || null;
+  const diversify =
+    options.mmrLambda !== undefined || options.maxPerDocument !== undefined;
 
-  // Apply user filter if provided
+  const conditions = filterConditions(options.filters);
   if (userId) {
-    queryBuilder = queryBuilder.where(
-      eq(embeddings.userId, userId)
-    ) as typeof queryBuilder;
+    conditions.push(eq(embeddings.userId, userId));
   }
 
-  const results = await queryBuilder
-    .orderBy(cosineDistance(embeddings.embedding, queryEmbedding))
-    .limit(topK);
-
-  // Convert distance to similarity score (1 - distance for cosine)
-  // Cosine distance ranges from 0 (identical) to 2 (opposite)
-  // Similarity score: 1 - distance/2, ranges from 0 (opposite) to 1 (identical)
-  return results.map(
-    (result: {
-      id: string;
-      content: string;
-      metadata: any;
-      distance: number;
-    }) => ({
-      id: result.id,
-      content: result.content,
-      metadata: result.metadata as Record<string, any> | null,
-      // For cosine distance: similarity = 1 - (distance / 2)
-      // Distance is already a number, so we calculate similarity
-      similarity:
-        typeof result.distance === "number"
-          ? Math.max(0, 1 - result.distance / 2)
-          : 0.5, // Fallback if distance is somehow not a number
-    })
+  const poolSize = Math.max(
+    topK,
+    reranker
+      ? options.rerankCandidates ?? topK * RERANK_CANDIDATES_PER_RESULT
+      : 0,
+    diversify || options.parents || options.minSimilarity !== undefined
+      ? topK * DIVERSITY_CANDIDATES_PER_RESULT
+      : 0
   );
+
+  let candidates = options.queries?.length
+    ? await retrieveAll(options.queries, poolSize, conditions, mode, provider)
+    : await retrieve(query, poolSize, conditions, mode, provider);
+
+  if (options.minSimilarity !== undefined) {
+    const minSimilarity = options.minSimilarity;
+    candidates = candidates.filter(
+      (chunk) =>
+        chunk.similarity >= minSimilarity || chunk.matchedBy.includes("keyword")
+    );
+  }
+
+  if (reranker) {
+    candidates = await rerankItems(query, candidates, candidates.length, reranker);
+  }
+
+  // With parents, several children may collapse into one section, so the
+  // children are ranked in full and only cut to topK after collapsing
+  const childCount = options.parents ? candidates.length : topK;
+  let results = candidates.slice(0, childCount);
+
+  if (diversify) {
+    const vectors =
+      options.mmrLambda !== undefined
+        ? await loadVectors(candidates.map((chunk) => chunk.id))
+        : new Map<string, number[]>();
+
+    results = selectDiverse(
+      candidates,
+      childCount,
+      (chunk) => chunk.rerankScore ?? chunk.similarity,
+      vectors,
+      { mmrLambda: options.mmrLambda, maxPerDocument: options.maxPerDocument }
+    );
+  }
+
+  if (options.parents) {
+    results = await collapseToParents(results, topK, userId);
+  }
+
+  return options.expandNeighbors
+    ? expandWithNeighbors(results, options.expandNeighbors, userId)
+    : results;
 }
 
 /**
- * Insert a text chunk with its embedding into the database.
+ * A fully embedded chunk, ready to be inserted into the embeddings table.
+ */
+export type EmbeddingRow = typeof embeddings.$inferInsert;
+
+/**
+ * Embed chunks and build their database rows without writing anything.
  *
- * @param content - The text content to store
+ * Chunks are embedded in provider-sized batches with bounded concurrency.
+ * Each chunk's metadata gets `chunkIndex` and `totalChunks` added, unless the
+ * chunk's own metadata already sets them (e.g. when only some chunks of a
+ * document are being re-embedded).
+ *
+ * @param chunks - The chunk texts (or texts with per-chunk metadata) in document order
  * @param userId - The user ID for multi-tenancy
- * @param metadata - Optional metadata (e.g., source file, page number)
- * @returns The inserted embedding record
+ * @param documentId - The document the chunks belong to
+ * @param metadata - Metadata shared by every chunk (e.g., source file)
+ * @param provider - Embedding provider (default: the configured provider)
+ * @returns One insertable row per chunk, in chunk order
  */
-export async function insertEmbedding(
-  content: string,
+export async function prepareEmbeddingRows(
+  chunks: Array<string | ChunkInput>,
   userId: string,
-  metadata?: Record<string, any>
-): Promise<{ id: string }> {
-  // Generate embedding for the content
-  const embedding = await generateEmbedding(content);
-
-  // Insert into database
-  const [result] = await db
-    .insert(embeddings)
-    .values({
-      content,
-      userId,
-      embedding: embedding as any, // Drizzle expects the vector type
-      metadata: metadata || null,
-    })
-    .returning({ id: embeddings.id });
+  documentId: string,
+  metadata: Record<string, unknown> = {},
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<EmbeddingRow[]> {
+  const inputs = chunks.map((chunk) =>
+    typeof chunk === "string" ? { content: chunk } : chunk
+  );
+  const vectors = await generateEmbeddings(inputs.map(textToEmbed), provider);
+
+  return inputs.map((input, index) => ({
+    content: input.content,
+    contentHash: hashContent(textToEmbed(input)),
+    userId,
+    documentId,
+    embedding: vectors[index],
+    embeddingProvider: provider.id,
+    embeddingModel: provider.model,
+    embeddingDimensions: provider.dimensions,
+    parentId: input.parentId ?? null,
+    metadata: {
+      ...metadata,
+      chunkIndex: index,
+      totalChunks: inputs.length,
+      ...input.metadata,
+    },
+  }));
+}
+
+/**
+ * Build bulk INSERT queries for prepared rows, for use inside runAtomic().
+ *
+ * @param conn - Connection or transaction to build the queries on
+ * @param rows - Rows from prepareEmbeddingRows()
+ * @returns One query per INSERT_BATCH_SIZE rows, each returning inserted ids
+ */
+export function embeddingInsertQueries(
+  conn: typeof db,
+  rows: EmbeddingRow[]
+): unknown[] {
+  const queries = [];
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    queries.push(
+      conn
+        .insert(embeddings)
+        .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+        .returning({ id: embeddings.id })
+    );
+  }
+  return queries;
+}
+
+/**
+ * Embed and insert chunks for an existing document in one go.
+ *
+ * Nothing is written until every embedding has succeeded, and the rows are
+ * then bulk-inserted atomically, so a failure leaves no half-ingested document.
+ *
+ * @param chunks - The chunk texts (or texts with per-chunk metadata) in document order
+ * @param userId - The user ID for multi-tenancy
+ * @param metadata - Metadata shared by every chunk (e.g., source file)
+ * @param options - The owning document and an optional embedding provider
+ * @returns The inserted embedding records, in chunk order
+ */
+export async function insertEmbeddings(
+  chunks: Array<string | ChunkInput>,
+  userId: string,
+  metadata: Record<string, unknown>,
+  options: { documentId: string; provider?: EmbeddingProvider }
+): Promise<Array<{ id: string }>> {
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const rows = await prepareEmbeddingRows(
+    chunks,
+    userId,
+    options.documentId,
+    metadata,
+    options.provider
+  );
+  const results = await runAtomic((conn) => embeddingInsertQueries(conn, rows));
 
-  return result;
+  return (results as Array<Array<{ id: string }>>).flat();
 }
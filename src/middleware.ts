@@ -1,10 +1,21 @@
-import { clerkMiddleware } from "@clerk/nextjs/server";
+import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
+import { NextResponse, type NextFetchEvent, type NextRequest } from "next/server";
 
 // Note: Next.js 16 deprecates middleware.ts in favor of "proxy" pattern,
 // but Clerk still requires middleware.ts for authentication. This warning
 // is expected until Clerk updates their package to support the new pattern.
 
-export default clerkMiddleware();
+// Shared chat links are public; the token in the path is the only credential
+const isSharedChatApi = createRouteMatcher(["/api/shared/(.*)"]);
+
+const clerk = clerkMiddleware();
+
+export default function middleware(req: NextRequest, event: NextFetchEvent) {
+  if (isSharedChatApi(req)) {
+    return NextResponse.next();
+  }
+  return clerk(req, event);
+}
 
 export const config = {
   matcher: [
@@ -14,4 +25,3 @@ export const config = {
     '/(api|trpc)(.*)',
   ],
 };
-
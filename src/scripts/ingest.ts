@@ -1,191 +1,221 @@
 import { readdir, readFile } from "fs/promises";
-import { join } from "path";
-import { insertEmbedding } from "../lib/rag/vectorStore";
+import { basename, join, relative } from "path";
+import { parseArgs } from "util";
+import {
+  ingestDocument,
+  type IngestChunkCounts,
+} from "../lib/rag/ingestion";
+import {
+  CHUNKING_STRATEGIES,
+  parseChunkingConfig,
+  type ChunkingConfig,
+} from "../lib/rag/chunkingStrategies";
+import {
+  CHAT_IMPORT_FORMATS,
+  detectChatImportFormat,
+  importConversations,
+  parseChatImport,
+  type ChatImportFormat,
+} from "../lib/ai/chatImport";
+import { ZodError } from "zod";
 
-/**
- * Simple text chunking function similar to RecursiveCharacterTextSplitter.
- * Splits text into overlapping chunks to preserve context.
- */
-function chunkText(
-  text: string,
-  chunkSize: number = 1000,
-  chunkOverlap: number = 200
-): string[] {
-  const chunks: string[] = [];
-  let start = 0;
-
-  // Helper to find the last word boundary (space, tab, newline) before a position
-  const findLastWordBoundary = (str: string, maxPos: number): number => {
-    // Look for spaces, tabs, newlines - but not at position 0
-    for (let i = Math.min(maxPos, str.length - 1); i > 0; i--) {
-      const char = str[i];
-      if (char === " " || char === "\t" || char === "\n") {
-        return i;
-      }
-    }
-    return -1;
-  };
-
-  // Helper to find the next word boundary after a position
-  const findNextWordBoundary = (str: string, minPos: number): number => {
-    for (let i = minPos; i < str.length; i++) {
-      const char = str[i];
-      if (char === " " || char === "\t" || char === "\n") {
-        return i;
-      }
-    }
-    return str.length;
-  };
-
-  while (start < text.length) {
-    const idealEnd = Math.min(start + chunkSize, text.length);
-    let chunk = text.slice(start, idealEnd);
-
-    // If this is the last chunk, use it as-is
-    if (idealEnd >= text.length) {
-      chunks.push(chunk.trim());
-      break;
-    }
-
-    // Try to find a good split point
-    // First priority: sentence boundaries (period followed by space, or newline)
-    let splitPoint = -1;
-    const lastPeriod = chunk.lastIndexOf(".");
-    const lastNewline = chunk.lastIndexOf("\n");
-
-    // Check if period is followed by space/newline (sentence end)
-    if (lastPeriod >= chunkSize * 0.5 && lastPeriod < chunk.length - 1) {
-      const afterPeriod = chunk[lastPeriod + 1];
-      if (afterPeriod === " " || afterPeriod === "\n" || afterPeriod === "\t") {
-        splitPoint = lastPeriod + 1; // Include the space after period
-      }
-    }
-
-    // Use newline if it's a good boundary
-    if (splitPoint === -1 && lastNewline >= chunkSize * 0.5) {
-      splitPoint = lastNewline;
-    }
+const USAGE = `Usage: tsx src/scripts/ingest.ts <userId> [directory] [options]
+  --strategy <name>              ${CHUNKING_STRATEGIES.join(" | ")} (default: markdown-section)
+  --chunk-size <tokens>          Maximum chunk size in tokens (default: 256)
+  --chunk-overlap <tokens>       Overlap between chunks in tokens (default: 32)
+  --breakpoint-percentile <n>    semantic-breakpoint split threshold (default: 95)
 
-    // Second priority: word boundaries (spaces, tabs)
-    if (splitPoint === -1 || splitPoint < chunkSize * 0.5) {
-      const wordBoundary = findLastWordBoundary(chunk, chunk.length - 1);
-      if (wordBoundary > chunkSize * 0.5) {
-        splitPoint = wordBoundary;
-      } else if (wordBoundary > 0) {
-        // Prefer any word boundary over cutting a word
-        splitPoint = wordBoundary;
-      }
-    }
-
-    // If we found a split point, use it
-    if (splitPoint > 0) {
-      chunk = chunk.slice(0, splitPoint).trimEnd();
-
-      // Calculate next start with overlap, ensuring it starts at a word boundary
-      const chunkEnd = start + splitPoint;
-      const overlapStart = chunkEnd - chunkOverlap;
-      const overlapStartBounded = Math.max(start, overlapStart);
-
-      // Find the nearest word boundary at or before the overlap start position
-      // We need to search in the original text, not the chunk
-      const textBeforeOverlap = text.slice(0, overlapStartBounded);
-      const overlapBoundary = findLastWordBoundary(
-        textBeforeOverlap,
-        textBeforeOverlap.length
-      );
+       tsx src/scripts/ingest.ts <userId> --import-chats <file> [--format <name>] [--as-notes]
+  --import-chats <file>          Import chats from a ChatGPT conversations.json or JSONL transcripts
+  --format <name>                ${CHAT_IMPORT_FORMATS.join(" | ")} (default: detected from the file)
+  --as-notes                     Also ingest each imported conversation as a note`;
 
-      // Use word boundary if found and it's not before current start
-      if (overlapBoundary >= start) {
-        start = overlapBoundary + 1; // Start after the space/whitespace
-      } else {
-        // If no boundary found going back, find next boundary forward from overlap start
-        const nextBoundary = findNextWordBoundary(text, overlapStartBounded);
-        start = nextBoundary < text.length ? nextBoundary + 1 : chunkEnd;
-      }
-    } else {
-      // Should not happen if text has spaces, but handle gracefully
-      // Find next word boundary forward
-      const nextBoundary = findNextWordBoundary(text, idealEnd);
-      if (nextBoundary < text.length) {
-        chunk = text.slice(start, nextBoundary).trimEnd();
-        start = nextBoundary + 1;
-      } else {
-        // Last chunk
-        chunks.push(chunk.trim());
-        break;
-      }
-    }
+/**
+ * Recursively list markdown files under a directory.
+ */
+async function findMarkdownFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
 
-    if (chunk.trim().length > 0) {
-      chunks.push(chunk.trim());
+  for (const entry of entries) {
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await findMarkdownFiles(entryPath)));
+    } else if (entry.isFile() && entry.name.endsWith(".md")) {
+      files.push(entryPath);
     }
   }
 
-  return chunks.filter((chunk) => chunk.length > 0);
+  return files;
 }
 
 /**
- * Process a markdown file and insert its chunks into the database.
+ * Process a markdown file and sync its chunks with the database.
+ * The document path is relative to the notes directory, so files with the
+ * same name in different folders are stored as separate documents.
+ * Unchanged files are skipped and only changed chunks are re-embedded.
  */
 async function processMarkdownFile(
   filePath: string,
-  userId: string
-): Promise<number> {
+  notesDir: string,
+  userId: string,
+  chunking: ChunkingConfig
+): Promise<IngestChunkCounts> {
   const content = await readFile(filePath, "utf-8");
   const fileName = filePath.split(/[/\\]/).pop() || "unknown";
 
-  // Remove markdown metadata/frontmatter if present
-  const cleanedContent = content.replace(/^---[\s\S]*?---\n/, "");
+  // Chunked inside ingestDocument with the selected strategy
+  const result = await ingestDocument({
+    userId,
+    path: relative(notesDir, filePath),
+    title: fileName,
+    content,
+    chunking,
+    sourceType: "ingest",
+  });
 
-  // Split into chunks
-  const chunks = chunkText(cleanedContent);
+  const { added, unchanged, removed } = result.chunks;
+  console.log(
+    result.skipped
+      ? `Skipping ${result.path}: unchanged`
+      : `Processed ${result.path}: ${added} added, ${unchanged} unchanged, ${removed} removed`
+  );
 
-  console.log(`Processing ${fileName}: ${chunks.length} chunks`);
+  return result.chunks;
+}
 
-  // Insert each chunk
-  let inserted = 0;
-  for (const chunk of chunks) {
-    await insertEmbedding(chunk, userId, {
-      source: fileName,
-      filePath,
-      chunkIndex: inserted,
-      totalChunks: chunks.length,
-    });
-    inserted++;
+/**
+ * Import conversations from another assistant's export into chats.
+ * Conversations imported before from the same format are skipped.
+ */
+async function importChatsFile(
+  filePath: string,
+  userId: string,
+  format: string | undefined,
+  asNotes: boolean
+): Promise<void> {
+  const text = await readFile(filePath, "utf-8");
+  const chatFormat = format ?? detectChatImportFormat(filePath, text);
+
+  if (!CHAT_IMPORT_FORMATS.includes(chatFormat as ChatImportFormat)) {
+    console.error(`Error: --format must be one of: ${CHAT_IMPORT_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+
+  console.log(`Importing ${chatFormat} chats from: ${filePath}`);
+  const { conversations, warnings } = parseChatImport(
+    text,
+    chatFormat as ChatImportFormat,
+    basename(filePath)
+  );
+  for (const warning of warnings) {
+    console.warn(`  Skipped: ${warning}`);
   }
 
-  return inserted;
+  const result = await importConversations(userId, conversations, {
+    source: chatFormat as ChatImportFormat,
+    asNotes,
+  });
+
+  console.log(`\n✅ Import complete!`);
+  console.log(`   Chats imported: ${result.imported.length}`);
+  console.log(`   Messages imported: ${result.imported.reduce((sum, chat) => sum + chat.messages, 0)}`);
+  console.log(`   Already imported: ${result.skipped}`);
+  if (asNotes) {
+    console.log(`   Notes ingested: ${result.notes}`);
+  }
+  for (const failure of result.failed) {
+    console.warn(`   Failed: "${failure.title}": ${failure.error}`);
+  }
 }
 
 /**
  * Main ingestion function.
  * Reads markdown files from the specified directory and ingests them.
  *
- * Usage: tsx src/scripts/ingest.ts <userId> [directory]
+ * Usage: tsx src/scripts/ingest.ts <userId> [directory] [options]
  *   userId: Clerk user ID (required for multi-tenancy)
  *   directory: Directory containing markdown files (default: ./data/notes)
+ *   options: chunking strategy and token sizes, or --import-chats to import
+ *     chats instead, see USAGE
  */
 async function main() {
-  const args = process.argv.slice(2);
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        strategy: { type: "string" },
+        "chunk-size": { type: "string" },
+        "chunk-overlap": { type: "string" },
+        "breakpoint-percentile": { type: "string" },
+        "import-chats": { type: "string" },
+        format: { type: "string" },
+        "as-notes": { type: "boolean" },
+      },
+    });
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    console.log(USAGE);
+    process.exit(1);
+  }
+  const { values, positionals } = parsed;
 
-  if (args.length === 0) {
+  if (positionals.length === 0) {
     console.error("Error: userId is required");
-    console.log("Usage: tsx src/scripts/ingest.ts <userId> [directory]");
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  if (values["import-chats"]) {
+    try {
+      await importChatsFile(
+        values["import-chats"],
+        positionals[0],
+        values.format,
+        values["as-notes"] ?? false
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        console.error(`File not found: ${values["import-chats"]}`);
+      } else {
+        console.error("Error during chat import:", error);
+      }
+      process.exit(1);
+    }
+    return;
+  }
+
+  let chunking: ChunkingConfig;
+  try {
+    chunking = parseChunkingConfig({
+      strategy: values.strategy,
+      chunkSize: values["chunk-size"],
+      chunkOverlap: values["chunk-overlap"],
+      breakpointPercentile: values["breakpoint-percentile"],
+    });
+  } catch (error) {
+    const details =
+      error instanceof ZodError
+        ? error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ")
+        : String(error);
+    console.error(`Error: invalid chunking options (${details})`);
+    console.log(USAGE);
     process.exit(1);
   }
 
-  const userId = args[0];
-  const notesDir = args[1] || join(process.cwd(), "data", "notes");
+  const userId = positionals[0];
+  const notesDir = positionals[1] || join(process.cwd(), "data", "notes");
 
   console.log(`Ingesting markdown files from: ${notesDir}`);
   console.log(`User ID: ${userId}`);
+  console.log(
+    `Chunking: ${chunking.strategy}, ${chunking.chunkSize} tokens, ${chunking.chunkOverlap} overlap`
+  );
 
   try {
-    // Check if directory exists
-    const entries = await readdir(notesDir, { withFileTypes: true });
-    const markdownFiles = entries
-      .filter((entry) => entry.isFile() && entry.name.endsWith(".md"))
-      .map((entry) => join(notesDir, entry.name));
+    // Check if directory exists and collect markdown files (including subfolders)
+    const markdownFiles = await findMarkdownFiles(notesDir);
 
     if (markdownFiles.length === 0) {
       console.warn(`No markdown files found in ${notesDir}`);
@@ -198,15 +228,24 @@ async function main() {
     console.log(`Found ${markdownFiles.length} markdown file(s)`);
 
     // Process each file
-    let totalChunks = 0;
+    const totals: IngestChunkCounts = { added: 0, unchanged: 0, removed: 0 };
     for (const filePath of markdownFiles) {
-      const chunks = await processMarkdownFile(filePath, userId);
-      totalChunks += chunks;
+      const counts = await processMarkdownFile(
+        filePath,
+        notesDir,
+        userId,
+        chunking
+      );
+      totals.added += counts.added;
+      totals.unchanged += counts.unchanged;
+      totals.removed += counts.removed;
     }
 
     console.log(`\n✅ Ingestion complete!`);
     console.log(`   Files processed: ${markdownFiles.length}`);
-    console.log(`   Total chunks inserted: ${totalChunks}`);
+    console.log(`   Chunks added: ${totals.added}`);
+    console.log(`   Chunks unchanged: ${totals.unchanged}`);
+    console.log(`   Chunks removed: ${totals.removed}`);
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "ENOENT") {
       console.error(`Directory not found: ${notesDir}`);